@@ -0,0 +1,315 @@
+/**
+ * Accessibility Tree Snapshots
+ * Builds a pruned tree of roles, names, states and values from the debugger's
+ * Accessibility domain, giving each node a ref that stays stable for the
+ * lifetime of the page
+ */
+
+import { uniquePath } from '../content/uniquePath';
+
+export interface AccessibilityNode {
+  ref: string;
+  role: string;
+  name?: string;
+  value?: string;
+  description?: string;
+  states?: string[];
+  children?: AccessibilityNode[];
+}
+
+export interface AccessibilitySnapshotOptions {
+  /** Maximum depth of the pruned tree (root is depth 0) */
+  maxDepth?: number;
+  /** Only keep nodes that intersect the visible viewport */
+  viewportOnly?: boolean;
+  /** Stop after this many nodes */
+  maxNodes?: number;
+}
+
+export interface AccessibilitySnapshot {
+  root: AccessibilityNode | null;
+  nodeCount: number;
+  truncated: boolean;
+}
+
+/** Subset of CDP Accessibility.AXNode */
+interface AXNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: { value?: string };
+  name?: { value?: string };
+  value?: { value?: unknown };
+  description?: { value?: string };
+  properties?: { name: string; value: { value?: unknown } }[];
+  childIds?: string[];
+  backendDOMNodeId?: number;
+}
+
+type Rect = [number, number, number, number];
+
+// Roles that only add nesting; their children are hoisted when unnamed
+const STRUCTURAL_ROLES = new Set(['generic', 'none', 'presentation', 'group', 'LineBreak']);
+
+// Tri-state and numeric properties reported as name=value
+const VALUED_STATES = new Set(['checked', 'pressed', 'expanded', 'level', 'valuemin', 'valuemax']);
+
+// Boolean properties reported by name when true
+const BOOLEAN_STATES = new Set([
+  'focused', 'disabled', 'selected', 'required', 'invalid', 'readonly',
+  'multiselectable', 'modal', 'busy', 'editable'
+]);
+
+const DEFAULT_MAX_NODES = 2000;
+
+// Per tab: backendDOMNodeId -> ref
+const refRegistries = new Map<number, { nextId: number; refs: Map<number, string> }>();
+
+/**
+ * Forget refs for a tab (tab closed or debugger reattached)
+ */
+export function clearAccessibilityRefs(tabId: number): void {
+  refRegistries.delete(tabId);
+}
+
+/**
+ * Turn an accessibility ref into a selector for its element, through the
+ * debugger. Refs name nodes in the top frame. Throws a "stale ref" error
+ * when the node is gone.
+ */
+export async function resolveAccessibilityRef(tabId: number, ref: string): Promise<string> {
+  if (ref.startsWith('ax:')) {
+    throw new Error(`Ref ${ref} has no element behind it (such as a list marker); use its parent's ref`);
+  }
+  const backendNodeId = Array.from(refRegistries.get(tabId)?.refs ?? []).find(([, known]) => known === ref)?.[0];
+  if (backendNodeId === undefined) {
+    throw new Error(`Stale ref ${ref}: the debugger has reattached since it was read, or it never existed. Call getAccessibilityTree again for fresh refs.`);
+  }
+
+  let objectId: string | undefined;
+  try {
+    ({ object: { objectId } } = await chrome.debugger.sendCommand({ tabId }, 'DOM.resolveNode', { backendNodeId }) as {
+      object: { objectId?: string };
+    });
+  } catch {
+    // Ignore: reported below
+  }
+  if (!objectId) {
+    throw new Error(`Stale ref ${ref}: the element was removed or the page navigated since it was read. Call getAccessibilityTree again for fresh refs.`);
+  }
+
+  try {
+    // Text nodes stand for the element that holds them. Closed shadow roots
+    // can't be entered from the main world, so rather than querying from the
+    // document, each ">>>" step is checked to match only its own host within
+    // the root that host lives in, which together make the selector unique.
+    const { result } = await chrome.debugger.sendCommand({ tabId }, 'Runtime.callFunctionOn', {
+      objectId,
+      functionDeclaration: `function () {
+        const el = this.nodeType === Node.ELEMENT_NODE ? this : this.parentElement;
+        if (!el) return null;
+        const selector = (${uniquePath.toString()})(el);
+        const targets = [];
+        for (let node = el; node; node = node.getRootNode() instanceof ShadowRoot ? node.getRootNode().host : null) {
+          targets.unshift(node);
+        }
+        const steps = selector.split('>>>').map(step => step.trim());
+        const unique = steps.length === targets.length && steps.every((step, i) => {
+          const matches = targets[i].getRootNode().querySelectorAll(step);
+          return matches.length === 1 && matches[0] === targets[i];
+        });
+        return unique ? selector : '';
+      }`,
+      returnByValue: true
+    }) as { result: { value?: unknown } };
+    if (typeof result.value !== 'string') {
+      throw new Error(`Ref ${ref} is not inside an element`);
+    }
+    if (!result.value) {
+      throw new Error(`Ref ${ref} can't be turned into a selector that matches only its element. Call getAccessibilityTree again, or use a selector instead.`);
+    }
+    return result.value;
+  } finally {
+    chrome.debugger.sendCommand({ tabId }, 'Runtime.releaseObject', { objectId }).catch(() => {
+      // The page may have navigated; the object is gone with it
+    });
+  }
+}
+
+/**
+ * Take a pruned accessibility snapshot of a tab with the debugger attached
+ */
+export async function getAccessibilitySnapshot(
+  tabId: number,
+  options: AccessibilitySnapshotOptions = {}
+): Promise<AccessibilitySnapshot> {
+  await chrome.debugger.sendCommand({ tabId }, 'Accessibility.enable');
+  const { nodes } = await chrome.debugger.sendCommand(
+    { tabId },
+    'Accessibility.getFullAXTree'
+  ) as { nodes: AXNode[] };
+
+  const byId = new Map(nodes.map(node => [node.nodeId, node]));
+  const rootNode = nodes.find(node => node.role?.value === 'RootWebArea') || nodes[0];
+  if (!rootNode) {
+    return { root: null, nodeCount: 0, truncated: false };
+  }
+
+  const visible = options.viewportOnly ? await getVisibleNodeIds(tabId) : null;
+  const maxDepth = options.maxDepth ?? Infinity;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  let nodeCount = 0;
+  let truncated = false;
+
+  let registry = refRegistries.get(tabId);
+  if (!registry) {
+    registry = { nextId: 1, refs: new Map() };
+    refRegistries.set(tabId, registry);
+  }
+  const refFor = (node: AXNode): string => {
+    if (node.backendDOMNodeId === undefined) {
+      // Virtual nodes (e.g. list markers) have no DOM node to anchor a ref to
+      return `ax:${node.nodeId}`;
+    }
+    let ref = registry!.refs.get(node.backendDOMNodeId);
+    if (!ref) {
+      ref = `ax${registry!.nextId++}`;
+      registry!.refs.set(node.backendDOMNodeId, ref);
+    }
+    return ref;
+  };
+
+  /**
+   * Convert a node and its subtree; returns the nodes that should appear in
+   * the parent's place (more than one when this node is pruned away)
+   */
+  const convert = (node: AXNode, depth: number, parentName?: string): AccessibilityNode[] => {
+    const role = node.role?.value || 'unknown';
+    const name = node.name?.value?.trim() || undefined;
+
+    const prune =
+      node.ignored ||
+      role === 'InlineTextBox' ||
+      (STRUCTURAL_ROLES.has(role) && !name) ||
+      (role === 'StaticText' && (!name || name === parentName));
+
+    const childDepth = prune ? depth : depth + 1;
+    const collectChildren = (ownName?: string): AccessibilityNode[] => {
+      if (childDepth > maxDepth) {
+        if (node.childIds?.length) truncated = true;
+        return [];
+      }
+      const result: AccessibilityNode[] = [];
+      for (const childId of node.childIds || []) {
+        const child = byId.get(childId);
+        if (child) {
+          result.push(...convert(child, childDepth, ownName));
+        }
+      }
+      return result;
+    };
+
+    if (prune) {
+      return collectChildren(parentName);
+    }
+
+    if (nodeCount >= maxNodes) {
+      truncated = true;
+      return [];
+    }
+    nodeCount++;
+
+    const children = collectChildren(name);
+    const isVisible = !visible || node.backendDOMNodeId === undefined || visible.has(node.backendDOMNodeId);
+    if (!isVisible && children.length === 0) {
+      nodeCount--;
+      return [];
+    }
+
+    const result: AccessibilityNode = { ref: refFor(node), role };
+    if (name) result.name = name;
+    const value = node.value?.value;
+    if (value !== undefined && value !== '') result.value = String(value);
+    const description = node.description?.value;
+    if (description) result.description = description;
+    const states = describeStates(node);
+    if (states.length > 0) result.states = states;
+    if (children.length > 0) result.children = children;
+
+    return [result];
+  };
+
+  const [root] = convert({ ...rootNode, ignored: false }, 0);
+  return { root: root || null, nodeCount, truncated };
+}
+
+/**
+ * Turn AX properties into short state strings such as "disabled" or "expanded=false"
+ */
+function describeStates(node: AXNode): string[] {
+  const states: string[] = [];
+  for (const property of node.properties || []) {
+    const value = property.value?.value;
+    if (BOOLEAN_STATES.has(property.name)) {
+      if (value === true) states.push(property.name);
+    } else if (VALUED_STATES.has(property.name) && value !== undefined) {
+      states.push(`${property.name}=${value}`);
+    }
+  }
+  return states;
+}
+
+/**
+ * Collect backend node ids whose layout box intersects the visual viewport
+ */
+async function getVisibleNodeIds(tabId: number): Promise<Set<number>> {
+  const metrics = await chrome.debugger.sendCommand({ tabId }, 'Page.getLayoutMetrics') as {
+    cssVisualViewport: { pageX: number; pageY: number; clientWidth: number; clientHeight: number };
+  };
+  const snapshot = await chrome.debugger.sendCommand({ tabId }, 'DOMSnapshot.captureSnapshot', {
+    computedStyles: []
+  }) as {
+    documents: {
+      nodes: { backendNodeId?: number[] };
+      layout: { nodeIndex: number[]; bounds: Rect[] };
+    }[];
+  };
+
+  const viewport = metrics.cssVisualViewport;
+  const left = viewport.pageX;
+  const top = viewport.pageY;
+  const right = left + viewport.clientWidth;
+  const bottom = top + viewport.clientHeight;
+
+  const visible = new Set<number>();
+  // Only the main document's coordinates line up with the page viewport
+  const doc = snapshot.documents[0];
+  if (!doc) return visible;
+
+  doc.layout.nodeIndex.forEach((nodeIndex, i) => {
+    const [x, y, width, height] = doc.layout.bounds[i];
+    if (width <= 0 || height <= 0) return;
+    if (x < right && x + width > left && y < bottom && y + height > top) {
+      const backendNodeId = doc.nodes.backendNodeId?.[nodeIndex];
+      if (backendNodeId !== undefined) visible.add(backendNodeId);
+    }
+  });
+
+  return visible;
+}
+
+/**
+ * Render a snapshot as an indented outline, one node per line
+ */
+export function formatAccessibilityTree(node: AccessibilityNode, indent = 0): string {
+  let line = `${'  '.repeat(indent)}- ${node.role}`;
+  if (node.name) line += ` "${node.name}"`;
+  if (node.value) line += ` value="${node.value}"`;
+  line += ` [ref=${node.ref}]`;
+  if (node.states) line += ` (${node.states.join(', ')})`;
+
+  const lines = [line];
+  for (const child of node.children || []) {
+    lines.push(formatAccessibilityTree(child, indent + 1));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,359 @@
+/**
+ * Action Approval
+ * Enforces the site policy before browser requests run: denylisted sites
+ * are refused outright, and mutating actions wait for the user to approve
+ * them in the side panel unless their origin is on the always-allow list
+ */
+
+import type {
+  BrowserContextRequest,
+  ApprovalRequestMessage,
+  ApprovalResponseMessage,
+  ApprovalResolvedMessage,
+  DomDiffPreview,
+} from '../types/messages';
+import {
+  classifyAction,
+  deniedDomainFor,
+  isAlwaysAllowed,
+  loadSitePolicy,
+  saveSitePolicy,
+  originOf,
+  type SitePolicy,
+} from '../shared/policy';
+import { listFrames, resolveFrameIds, runInFrames, targetsFrames } from './frames';
+
+/** How long a prompt waits for an answer before the action is denied */
+const APPROVAL_TIMEOUT = 120000;
+const MAX_PREVIEW_LENGTH = 2000;
+
+interface PendingApproval {
+  message: ApprovalRequestMessage;
+  resolve: (response: ApprovalResponseMessage | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const pendingApprovals = new Map<string, PendingApproval>();
+
+/**
+ * Throw unless the policy lets this request run on this tab, and return
+ * the tab to run it on. Mutating actions block here until the user answers
+ * the prompt; the tab is then read again, since it may have navigated while
+ * the prompt was open.
+ */
+export async function authorizeRequest(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<chrome.tabs.Tab> {
+  const policy = await assertNotDenied(request, tab);
+  const params = request.params || {};
+
+  if (classifyAction(request.action, params) === 'read') {
+    return tab;
+  }
+
+  // Always-allow must cover every frame the request reaches, not just the top one
+  const urls = await targetedUrls(request, tab);
+  if (urls.every(url => isAlwaysAllowed(policy, url))) {
+    return tab;
+  }
+
+  const origins = distinctOrigins(urls);
+  const url = urls.length === 1 ? urls[0] : undefined;
+  const origin = origins.length === 1 ? origins[0] : undefined;
+  const response = await requestApproval({
+    action: request.action,
+    origin: origins.length > 0 ? origins.join(', ') : undefined,
+    url: url || undefined,
+    title: request.action === 'openTab' ? undefined : tab.title,
+    ...await describeRequest(request, tab)
+  });
+
+  const where = origins.join(', ') || url || 'this page';
+  if (!response) {
+    throw new Error(`${request.action} on ${where} was not approved within ${APPROVAL_TIMEOUT / 1000}s`);
+  }
+  if (!response.approved) {
+    throw new Error(`User denied ${request.action} on ${where}`);
+  }
+  if (response.alwaysAllow && origin) {
+    // Re-read so concurrent edits from the options page aren't lost
+    const latest = await loadSitePolicy();
+    if (!latest.alwaysAllow.includes(origin)) {
+      await saveSitePolicy({ ...latest, alwaysAllow: [...latest.alwaysAllow, origin] });
+    }
+  }
+
+  let current: chrome.tabs.Tab;
+  try {
+    current = await chrome.tabs.get(tab.id!);
+  } catch {
+    throw new Error(`${request.action} not run: the tab was closed while waiting for approval`);
+  }
+  await assertNotDenied(request, current);
+  const approved = origins.join(', ');
+  const now = distinctOrigins(await targetedUrls(request, current)).join(', ');
+  if (now !== approved) {
+    throw new Error(`${request.action} not run: the page changed from ${approved || 'this page'} to ${now || 'another page'} while waiting for approval`);
+  }
+  return current;
+}
+
+/**
+ * URLs of the pages a request acts on: the one a new tab opens, the frames
+ * it names, or the tab's top frame
+ */
+async function targetedUrls(request: BrowserContextRequest, tab: chrome.tabs.Tab): Promise<string[]> {
+  const params = request.params || {};
+  const tabUrl = tab.url || tab.pendingUrl || '';
+  if (request.action === 'openTab' && typeof params.url === 'string') {
+    return [params.url];
+  }
+  if (!targetsFrames(params)) {
+    return [tabUrl];
+  }
+  const frameIds = await resolveFrameIds(tab.id!, params);
+  const frames = await listFrames(tab.id!);
+  return frameIds.map(frameId => frames.find(frame => frame.frameId === frameId)?.url ?? tabUrl);
+}
+
+function distinctOrigins(urls: string[]): string[] {
+  return Array.from(new Set(urls.map(originOf).filter((origin): origin is string => origin !== null))).sort();
+}
+
+/**
+ * Throw if the tab, or the URL the request navigates to, is on the
+ * denylist. Runs before anything touches the page.
+ */
+export async function assertNotDenied(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<SitePolicy> {
+  const policy = await loadSitePolicy();
+  const params = request.params || {};
+  const tabUrl = tab.url || tab.pendingUrl || '';
+  const targetUrl = typeof params.url === 'string' ? params.url : null;
+
+  for (const url of [tabUrl, targetUrl]) {
+    const denied = url ? deniedDomainFor(policy, url) : null;
+    if (denied) {
+      throw new Error(`${request.action} blocked: ${denied} is on the denylist`);
+    }
+  }
+  return policy;
+}
+
+/**
+ * Record the user's answer to a prompt
+ */
+export function resolveApproval(response: ApprovalResponseMessage): void {
+  const pending = pendingApprovals.get(response.approvalId);
+  if (pending) {
+    pending.resolve(response);
+  }
+}
+
+/**
+ * Re-send open prompts, e.g. to a side panel that was just opened
+ */
+export function redeliverApprovals(): void {
+  for (const { message } of pendingApprovals.values()) {
+    chrome.runtime.sendMessage(message).catch(() => {
+      // Still no side panel; the prompt waits until it expires
+    });
+  }
+}
+
+/**
+ * Show a prompt and resolve with the answer, or null once it expires.
+ * Prompts sent while no side panel is open wait for the next one.
+ */
+function requestApproval(
+  details: Omit<ApprovalRequestMessage, 'type' | 'approvalId' | 'expiresAt'>
+): Promise<ApprovalResponseMessage | null> {
+  const message: ApprovalRequestMessage = {
+    type: 'approval:request',
+    approvalId: crypto.randomUUID(),
+    expiresAt: Date.now() + APPROVAL_TIMEOUT,
+    ...details
+  };
+
+  return new Promise((resolve) => {
+    const settle = (response: ApprovalResponseMessage | null) => {
+      clearTimeout(pendingApprovals.get(message.approvalId)?.timer);
+      pendingApprovals.delete(message.approvalId);
+      const resolved: ApprovalResolvedMessage = {
+        type: 'approval:resolved',
+        approvalId: message.approvalId,
+        approved: response?.approved ?? false
+      };
+      chrome.runtime.sendMessage(resolved).catch(() => {
+        // No side panel open
+      });
+      resolve(response);
+    };
+
+    pendingApprovals.set(message.approvalId, {
+      message,
+      resolve: settle,
+      timer: setTimeout(() => settle(null), APPROVAL_TIMEOUT)
+    });
+
+    console.log(`[Background] Waiting for approval of ${message.action} on ${message.origin || message.url}`);
+    chrome.runtime.sendMessage(message).catch(() => {
+      // Delivered by redeliverApprovals when the side panel opens
+    });
+  });
+}
+
+/**
+ * Summarize what a mutating request will do, with the script or DOM diff
+ */
+async function describeRequest(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<Pick<ApprovalRequestMessage, 'summary' | 'code' | 'diff'>> {
+  const params = request.params || {};
+  const str = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const frames = params.allFrames
+    ? ` in every frame${str(params.frameUrl) ? ` matching ${params.frameUrl}` : ''}`
+    : typeof params.frameId === 'number' && params.frameId !== 0
+      ? ` in frame ${params.frameId}`
+      : str(params.frameUrl) ? ` in the frame at ${params.frameUrl}` : '';
+  const target = (str(params.ref) ? `${params.ref} (${str(params.selector)})` : str(params.selector)) ||
+    (typeof params.x === 'number' && typeof params.y === 'number' ? `(${params.x}, ${params.y})` : 'the page');
+
+  switch (request.action) {
+    case 'executeScript':
+      return { summary: `Run JavaScript in the page${frames}`, code: str(params.script) };
+    case 'waitFor':
+      return { summary: 'Evaluate a JavaScript predicate in the page', code: str(params.predicate) };
+    case 'modifyDom': {
+      const summary = `${str(params.action) ?? 'modify'} ${str(params.attributeName) ?? ''} on ${params.all ? 'all elements' : 'the first element'} matching ${target}${frames}`
+        .replace(/\s+/g, ' ');
+      try {
+        const frameIds = await resolveFrameIds(tab.id!, params);
+        const results = await runInFrames(tab.id!, frameIds, {
+          func: previewDomModification,
+          args: [
+            str(params.selector) ?? '',
+            str(params.action) ?? '',
+            str(params.value) ?? null,
+            str(params.attributeName) ?? null,
+            params.all === true,
+            MAX_PREVIEW_LENGTH
+          ]
+        });
+        // Show the first frame's change, counting matches in every frame
+        const previews = results.map(({ result }) => result).filter((preview): preview is DomDiffPreview => !!preview);
+        const diff = previews[0] && { ...previews[0], matchCount: previews.reduce((sum, preview) => sum + preview.matchCount, 0) };
+        return { summary, diff };
+      } catch {
+        // The request itself will report why the page can't be scripted
+        return { summary };
+      }
+    }
+    case 'undoDomChange':
+      return { summary: `Undo DOM change ${params.changeId ?? '(most recent)'}` };
+    case 'revertAll':
+      return { summary: 'Revert every DOM change made on this page' };
+    case 'click':
+      return { summary: `Click ${target}` };
+    case 'type':
+      return { summary: `Type into ${target}`, code: str(params.text) };
+    case 'press':
+      return { summary: `Press ${str(params.key) ?? 'a key'} on ${target}` };
+    case 'navigate':
+      return { summary: `Navigate to ${str(params.url)}` };
+    case 'openTab':
+      return { summary: `Open a new tab at ${str(params.url)}` };
+    case 'closeTab':
+      return { summary: 'Close this tab' };
+    case 'back':
+    case 'forward':
+    case 'reload':
+      return { summary: `${request.action[0].toUpperCase()}${request.action.slice(1)} this tab` };
+    default:
+      return { summary: `${request.action} ${JSON.stringify(params)}` };
+  }
+}
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ *
+ * Describes the markup a modifyDom call would change, before and after,
+ * for the first matching element. Returns null when nothing matches.
+ */
+function previewDomModification(
+  selector: string,
+  action: string,
+  value: string | null,
+  attributeName: string | null,
+  all: boolean,
+  maxLength: number
+): DomDiffPreview | null {
+  // Loaded by injectDomHelpers
+  const { queryDeep } = globalThis.__geminiDom!;
+
+  let matchCount: number;
+  let el: Element | null;
+  try {
+    const matches = queryDeep(selector);
+    matchCount = all ? matches.length : Math.min(matches.length, 1);
+    el = matches[0] ?? null;
+  } catch {
+    return null;
+  }
+  if (!el) return null;
+
+  const attr = (name: string, attrValue: string | null) =>
+    attrValue === null ? `(no ${name} attribute)` : `${name}="${attrValue}"`;
+  const clip = (text: string) => (text.length > maxLength ? `${text.slice(0, maxLength)}…` : text);
+
+  let before = el.outerHTML;
+  let after = '';
+  switch (action) {
+    case 'setHTML':
+      before = el.innerHTML;
+      after = value || '';
+      break;
+    case 'setOuterHTML':
+      after = value || '';
+      break;
+    case 'setText':
+      before = el.textContent || '';
+      after = value || '';
+      break;
+    case 'setAttribute':
+    case 'removeAttribute':
+      before = attr(attributeName || '', el.getAttribute(attributeName || ''));
+      after = action === 'setAttribute' ? attr(attributeName || '', value || '') : attr(attributeName || '', null);
+      break;
+    case 'addClass':
+    case 'removeClass': {
+      const classes = new Set(el.classList);
+      before = `class="${Array.from(classes).join(' ')}"`;
+      if (action === 'addClass') {
+        classes.add(value || '');
+      } else {
+        classes.delete(value || '');
+      }
+      after = `class="${Array.from(classes).join(' ')}"`;
+      break;
+    }
+    case 'remove':
+      after = '(removed)';
+      break;
+    case 'insertBefore':
+      after = `${value || ''}\n${el.outerHTML}`;
+      break;
+    case 'insertAfter':
+      after = `${el.outerHTML}\n${value || ''}`;
+      break;
+    default:
+      return null;
+  }
+
+  return { matchCount, before: clip(before), after: clip(after) };
+}
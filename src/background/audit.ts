@@ -0,0 +1,123 @@
+/**
+ * Audit Log
+ * A capped record of every browser request the backend made, kept in
+ * chrome.storage.local so it survives worker restarts and browser sessions
+ */
+
+import type { AuditEntry, BrowserAction, BrowserContextRequest, BrowserContextResponse } from '../types/messages';
+
+const AUDIT_STORAGE_KEY = 'auditLog';
+const MAX_AUDIT_ENTRIES = 2000;
+const MAX_PARAM_LENGTH = 200;
+const MAX_PARAMS_SUMMARY = 600;
+// Params that can hold what the user types into forms, such as passwords
+// and one-time codes; only their length is logged
+const REDACTED_PARAMS: Partial<Record<BrowserAction, (params: Record<string, unknown>) => string[]>> = {
+  type: () => ['text'],
+  modifyDom: params => params.action === 'setAttribute' ? ['value'] : []
+};
+const FLUSH_DELAY = 1000;
+
+// Entries not yet written to storage
+let unflushed: AuditEntry[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+// Serializes read-modify-write cycles on the stored log
+let storageQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Record a finished browser request and return the entry. payloadSize is
+ * the size of the response as sent, measured by the sender so the response
+ * isn't serialized twice.
+ */
+export function recordAuditEntry(
+  request: BrowserContextRequest,
+  response: BrowserContextResponse,
+  startedAt: number,
+  payloadSize: number
+): AuditEntry {
+  const entry: AuditEntry = {
+    id: `${startedAt}-${request.requestId}`,
+    timestamp: startedAt,
+    requestId: request.requestId,
+    action: request.action,
+    params: summarizeParams(request.action, request.params),
+    tabId: response.tab?.id,
+    url: response.tab?.url,
+    durationMs: Date.now() - startedAt,
+    success: response.success,
+    error: response.error,
+    payloadSize
+  };
+
+  unflushed.push(entry);
+  if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      flushAuditLog();
+    }, FLUSH_DELAY);
+  }
+  return entry;
+}
+
+/**
+ * All entries, oldest first, including ones not yet flushed to storage
+ */
+export async function getAuditLog(): Promise<AuditEntry[]> {
+  await storageQueue;
+  const stored = await chrome.storage.local.get(AUDIT_STORAGE_KEY);
+  const entries = (stored[AUDIT_STORAGE_KEY] as AuditEntry[] | undefined) || [];
+  return [...entries, ...unflushed].slice(-MAX_AUDIT_ENTRIES);
+}
+
+/**
+ * Delete every entry
+ */
+export function clearAuditLog(): Promise<void> {
+  unflushed = [];
+  const cleared = storageQueue.then(() => chrome.storage.local.remove(AUDIT_STORAGE_KEY));
+  // A failed clear is reported to the caller but must not wedge later writes
+  storageQueue = cleared.catch(() => {});
+  return cleared;
+}
+
+/**
+ * Append unflushed entries to storage, dropping the oldest beyond the cap
+ */
+function flushAuditLog(): void {
+  const batch = unflushed;
+  unflushed = [];
+  if (batch.length === 0) return;
+
+  storageQueue = storageQueue
+    .then(async () => {
+      const stored = await chrome.storage.local.get(AUDIT_STORAGE_KEY);
+      const entries = (stored[AUDIT_STORAGE_KEY] as AuditEntry[] | undefined) || [];
+      await chrome.storage.local.set({
+        [AUDIT_STORAGE_KEY]: [...entries, ...batch].slice(-MAX_AUDIT_ENTRIES)
+      });
+    })
+    .catch((error) => {
+      console.error('[Background] Failed to write audit log:', error);
+    });
+}
+
+/**
+ * Compact, truncated JSON of request params. Long values such as scripts
+ * and HTML are cut so the log stays small, and typed text is reduced to its
+ * length; tab targeting is kept.
+ */
+function summarizeParams(action: BrowserAction, params: BrowserContextRequest['params']): string {
+  if (!params || Object.keys(params).length === 0) {
+    return '';
+  }
+  const redacted = REDACTED_PARAMS[action]?.(params) ?? [];
+  const summary = JSON.stringify(params, function (this: unknown, key, value: unknown) {
+    if (this === params && redacted.includes(key) && typeof value === 'string') {
+      return `[redacted, ${value.length} chars]`;
+    }
+    return typeof value === 'string' && value.length > MAX_PARAM_LENGTH
+      ? `${value.slice(0, MAX_PARAM_LENGTH)}… (${value.length} chars)`
+      : value;
+  });
+  return summary.length > MAX_PARAMS_SUMMARY ? `${summary.slice(0, MAX_PARAMS_SUMMARY)}…` : summary;
+}
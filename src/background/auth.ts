@@ -0,0 +1,93 @@
+/**
+ * Backend Authentication Helpers
+ * Pairing codes, nonces, HMAC proofs and the stored pairing token
+ */
+
+// Tokens are keyed by backend URL so each connection profile pairs separately
+const TOKEN_STORAGE_KEY = 'backendTokens';
+
+async function loadTokens(): Promise<Record<string, string>> {
+  const stored = await chrome.storage.local.get(TOKEN_STORAGE_KEY);
+  return stored[TOKEN_STORAGE_KEY] || {};
+}
+
+/**
+ * Load the token saved by a previous pairing with this backend, if any
+ */
+export async function loadPairingToken(backendUrl: string): Promise<string | null> {
+  const token = (await loadTokens())[backendUrl];
+  return typeof token === 'string' && token ? token : null;
+}
+
+/**
+ * Persist the token issued by the backend after pairing
+ */
+export async function savePairingToken(backendUrl: string, token: string): Promise<void> {
+  const tokens = await loadTokens();
+  tokens[backendUrl] = token;
+  await chrome.storage.local.set({ [TOKEN_STORAGE_KEY]: tokens });
+}
+
+/**
+ * Forget the stored token so the next connection to this backend pairs again
+ */
+export async function clearPairingToken(backendUrl: string): Promise<void> {
+  const tokens = await loadTokens();
+  delete tokens[backendUrl];
+  await chrome.storage.local.set({ [TOKEN_STORAGE_KEY]: tokens });
+}
+
+/**
+ * Generate a random hex nonce for a single handshake
+ */
+export function createNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return toHex(bytes);
+}
+
+/**
+ * Generate a 6-digit one-time pairing code
+ */
+export function createPairingCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, '0');
+}
+
+/**
+ * HMAC-SHA256 of message keyed by secret, hex encoded
+ */
+export async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return toHex(new Uint8Array(signature));
+}
+
+/**
+ * Check a proof sent by the backend against the expected HMAC
+ */
+export async function verifyProof(secret: string, message: string, proof: unknown): Promise<boolean> {
+  if (typeof proof !== 'string') {
+    return false;
+  }
+  const expected = await hmacHex(secret, message);
+  // Constant-time comparison
+  if (expected.length !== proof.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ proof.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
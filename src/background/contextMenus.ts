@@ -0,0 +1,194 @@
+/**
+ * Send to Gemini
+ * Context menu entries that capture the selection, a link, an image or the
+ * page and queue it for the side panel, which pastes it at the prompt or
+ * attaches it to the conversation
+ */
+
+import type { PageContext, PageContextKind, PendingContext } from '../types/messages';
+import { extractReadableContent } from './readable';
+
+const MENU_PARENT = 'send-to-gemini';
+const MENU_ITEMS: Record<string, PendingContext['delivery']> = {
+  'send-to-gemini:prompt': 'prompt',
+  'send-to-gemini:attachment': 'attachment'
+};
+const MENU_CONTEXTS: chrome.contextMenus.ContextType[] = ['selection', 'link', 'image', 'page'];
+
+/** Text kept per context, in characters */
+const MAX_CONTEXT_TEXT = 20000;
+/** Longest URL kept; image sources can be large data: URLs */
+const MAX_URL_LENGTH = 2000;
+/** Contexts no side panel took within this time are dropped */
+const PENDING_TTL = 5 * 60 * 1000;
+
+let pending: Array<{ entry: PendingContext; windowId: number; queuedAt: number }> = [];
+
+/**
+ * Create the menu entries; Chrome keeps them across worker restarts
+ */
+export function registerContextMenus(): void {
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create({ id: MENU_PARENT, title: 'Send to Gemini', contexts: MENU_CONTEXTS });
+    chrome.contextMenus.create({
+      id: 'send-to-gemini:prompt',
+      parentId: MENU_PARENT,
+      title: 'Insert at prompt',
+      contexts: MENU_CONTEXTS
+    });
+    chrome.contextMenus.create({
+      id: 'send-to-gemini:attachment',
+      parentId: MENU_PARENT,
+      title: 'Attach to conversation',
+      contexts: MENU_CONTEXTS
+    });
+  });
+}
+
+/**
+ * How a clicked menu item delivers its context, or null if it isn't ours
+ */
+export function contextMenuDelivery(menuItemId: string | number): PendingContext['delivery'] | null {
+  return MENU_ITEMS[String(menuItemId)] ?? null;
+}
+
+/**
+ * Capture what was right-clicked. The most specific target wins: a
+ * selection, then an image, then a link, then the page itself.
+ */
+export async function capturePageContext(
+  info: chrome.contextMenus.OnClickData,
+  tab: chrome.tabs.Tab,
+  delivery: PendingContext['delivery']
+): Promise<PageContext> {
+  const kind: PageContextKind = info.selectionText
+    ? 'selection'
+    : info.mediaType === 'image' && info.srcUrl
+      ? 'image'
+      : info.linkUrl
+        ? 'link'
+        : 'page';
+
+  const context: PageContext = {
+    kind,
+    pageUrl: info.pageUrl || tab.url || '',
+    pageTitle: tab.title || '',
+    capturedAt: Date.now()
+  };
+  const target = { tabId: tab.id!, frameIds: [info.frameId ?? 0] };
+
+  switch (kind) {
+    case 'selection': {
+      // The menu's selectionText has line breaks collapsed; read the real selection
+      const text = await runInFrame(target, () => window.getSelection()?.toString() || '');
+      setText(context, text?.trim() ? text : info.selectionText!);
+      break;
+    }
+    case 'image':
+      context.targetUrl = shortenUrl(info.srcUrl!);
+      break;
+    case 'link': {
+      context.targetUrl = shortenUrl(info.linkUrl!);
+      const text = await runInFrame(target, findLinkText, [info.linkUrl!]);
+      if (text) setText(context, text);
+      break;
+    }
+    case 'page':
+      // Only attachments carry the content; at the prompt the URL is enough
+      if (delivery === 'attachment' && tab.id !== undefined) {
+        const result = await runInFrame({ tabId: tab.id }, extractReadableContent, [{ maxLength: MAX_CONTEXT_TEXT }]);
+        if (result?.markdown) {
+          context.text = result.markdown;
+          context.truncated = result.truncated;
+        }
+      }
+      break;
+  }
+  return context;
+}
+
+/**
+ * Queue a context for the side panel of the window it was captured in
+ */
+export function queuePageContext(
+  delivery: PendingContext['delivery'],
+  context: PageContext,
+  windowId: number
+): void {
+  const id = crypto.randomUUID();
+  const entry: PendingContext = delivery === 'prompt'
+    ? { id, delivery, block: formatContextBlock(context) }
+    : { id, delivery, context };
+  pending.push({ entry, windowId, queuedAt: Date.now() });
+}
+
+/**
+ * Hand over a window's queued contexts, dropping any that expired
+ */
+export function takePendingContexts(windowId: number): PendingContext[] {
+  const cutoff = Date.now() - PENDING_TTL;
+  pending = pending.filter(item => item.queuedAt >= cutoff);
+  const taken = pending.filter(item => item.windowId === windowId).map(item => item.entry);
+  pending = pending.filter(item => item.windowId !== windowId);
+  return taken;
+}
+
+/**
+ * Text to paste at the prompt: what was captured, with its page title and URL
+ */
+function formatContextBlock(context: PageContext): string {
+  const page = `"${context.pageTitle || context.pageUrl}" <${context.pageUrl}>`;
+  switch (context.kind) {
+    case 'selection': {
+      const quoted = context.text!.split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+      const note = context.truncated ? '\n> […]' : '';
+      return `Selected text from ${page}:\n${quoted}${note}\n\n`;
+    }
+    case 'link':
+      return `Link ${context.text ? `"${context.text}" ` : ''}<${context.targetUrl}> on ${page} `;
+    case 'image':
+      return `Image <${context.targetUrl}> on ${page} `;
+    default:
+      return `Page ${page} `;
+  }
+}
+
+function setText(context: PageContext, text: string): void {
+  context.truncated = text.length > MAX_CONTEXT_TEXT;
+  context.text = context.truncated ? text.slice(0, MAX_CONTEXT_TEXT) : text;
+}
+
+function shortenUrl(url: string): string {
+  return url.length > MAX_URL_LENGTH ? `${url.slice(0, MAX_URL_LENGTH)}… (${url.length} chars)` : url;
+}
+
+/**
+ * Run a function in a frame, returning undefined where scripts can't run
+ * (chrome:// pages, the Web Store, PDFs)
+ */
+async function runInFrame<Args extends unknown[], Result>(
+  target: chrome.scripting.InjectionTarget,
+  func: (...args: Args) => Result,
+  args?: Args
+): Promise<Awaited<Result> | undefined> {
+  try {
+    const results = await chrome.scripting.executeScript({ target, func, args: args ?? ([] as unknown as Args) });
+    return results[0]?.result as Awaited<Result> | undefined;
+  } catch (error) {
+    console.warn('[Background] Could not read context from the page:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ */
+function findLinkText(href: string): string {
+  for (const link of Array.from(document.querySelectorAll('a[href]'))) {
+    if ((link as HTMLAnchorElement).href === href) {
+      return (link.textContent || link.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim();
+    }
+  }
+  return '';
+}
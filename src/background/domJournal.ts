@@ -0,0 +1,334 @@
+/**
+ * DOM Change Journal
+ * modifyDom records how to invert each edit in a journal kept in the page's
+ * isolated world, next to the nodes it touched. The journal lives exactly as
+ * long as the document, so it can never outlive the edits it describes.
+ */
+
+import type { DomChangeEntry } from '../types/messages';
+
+export type UndoRecord =
+  | { kind: 'children'; el: Element; nodes: Node[] }
+  | { kind: 'replace'; parent: Node; next: Node | null; original: Element; inserted: Node[] }
+  | { kind: 'attribute'; el: Element; name: string; oldValue: string | null }
+  | { kind: 'class'; el: Element; className: string; had: boolean }
+  | { kind: 'removed'; parent: Node; next: Node | null; el: Element }
+  | { kind: 'inserted'; nodes: Node[] };
+
+export interface JournalEntry extends DomChangeEntry {
+  undo: UndoRecord[];
+}
+
+export interface DomJournal {
+  nextId: number;
+  entries: JournalEntry[];
+}
+
+/** Global the journal is stored under in the isolated world */
+export const JOURNAL_KEY = '__geminiDomJournal';
+
+/** Oldest entries beyond this are forgotten and can no longer be undone */
+export const MAX_JOURNAL_ENTRIES = 200;
+
+export type ModifyResult =
+  | { success: true; modifiedCount: number; message: string; changeId: number }
+  | { success: false; error: string; changeId?: number };
+
+export type UndoResult =
+  | { ok: true; reverted: DomChangeEntry[]; changes: DomChangeEntry[] }
+  | { ok: false; error: string };
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ *
+ * Applies a modifyDom action and journals how to invert it. Arguments are
+ * validated before anything is touched; if an element fails part way, the
+ * elements already modified are still journaled so they can be undone.
+ */
+export function applyDomModification(
+  journalKey: string,
+  maxEntries: number,
+  selector: string,
+  action: string,
+  value: string | null,
+  attributeName: string | null,
+  all: boolean
+): ModifyResult {
+  const requirements: Record<string, string | null> = {
+    setHTML: null,
+    setOuterHTML: null,
+    setText: null,
+    setAttribute: attributeName ? null : 'attributeName required for setAttribute action',
+    removeAttribute: attributeName ? null : 'attributeName required for removeAttribute action',
+    addClass: value ? null : 'value (class name) required for addClass action',
+    removeClass: value ? null : 'value (class name) required for removeClass action',
+    remove: null,
+    insertBefore: value ? null : 'value (HTML content) required for insertBefore action',
+    insertAfter: value ? null : 'value (HTML content) required for insertAfter action'
+  };
+  if (!(action in requirements)) {
+    return { success: false, error: `Unknown action: ${action}` };
+  }
+  if (requirements[action]) {
+    return { success: false, error: requirements[action]! };
+  }
+
+  // Loaded by injectDomHelpers
+  const { queryDeep } = globalThis.__geminiDom!;
+
+  let elements: Element[];
+  try {
+    elements = all ? queryDeep(selector) : queryDeep(selector).slice(0, 1);
+  } catch {
+    return { success: false, error: `Invalid selector: ${selector}` };
+  }
+  if (elements.length === 0) {
+    return { success: false, error: `No elements found matching: ${selector}` };
+  }
+
+  // Nodes strictly between two siblings; null bounds mean the ends of parent
+  const between = (parent: Node, after: Node | null, before: Node | null): Node[] => {
+    const nodes: Node[] = [];
+    let node = after ? after.nextSibling : parent.firstChild;
+    while (node && node !== before) {
+      nodes.push(node);
+      node = node.nextSibling;
+    }
+    return nodes;
+  };
+
+  const undo: UndoRecord[] = [];
+  let modifiedCount = 0;
+  let error: string | null = null;
+
+  for (const element of elements) {
+    try {
+      switch (action) {
+        case 'setHTML':
+          undo.push({ kind: 'children', el: element, nodes: Array.from(element.childNodes) });
+          element.innerHTML = value || '';
+          break;
+        case 'setOuterHTML': {
+          const parent = element.parentNode;
+          const prev = element.previousSibling;
+          const next = element.nextSibling;
+          element.outerHTML = value || '';
+          if (parent) {
+            undo.push({ kind: 'replace', parent, next, original: element, inserted: between(parent, prev, next) });
+          }
+          break;
+        }
+        case 'setText':
+          undo.push({ kind: 'children', el: element, nodes: Array.from(element.childNodes) });
+          element.textContent = value || '';
+          break;
+        case 'setAttribute':
+          undo.push({ kind: 'attribute', el: element, name: attributeName!, oldValue: element.getAttribute(attributeName!) });
+          element.setAttribute(attributeName!, value || '');
+          break;
+        case 'removeAttribute':
+          undo.push({ kind: 'attribute', el: element, name: attributeName!, oldValue: element.getAttribute(attributeName!) });
+          element.removeAttribute(attributeName!);
+          break;
+        case 'addClass':
+        case 'removeClass':
+          undo.push({ kind: 'class', el: element, className: value!, had: element.classList.contains(value!) });
+          element.classList.toggle(value!, action === 'addClass');
+          break;
+        case 'remove':
+          if (element.parentNode) {
+            undo.push({ kind: 'removed', parent: element.parentNode, next: element.nextSibling, el: element });
+          }
+          element.remove();
+          break;
+        case 'insertBefore': {
+          const parent = element.parentNode;
+          const prev = element.previousSibling;
+          element.insertAdjacentHTML('beforebegin', value!);
+          if (parent) {
+            undo.push({ kind: 'inserted', nodes: between(parent, prev, element) });
+          }
+          break;
+        }
+        case 'insertAfter': {
+          const parent = element.parentNode;
+          const next = element.nextSibling;
+          element.insertAdjacentHTML('afterend', value!);
+          if (parent) {
+            undo.push({ kind: 'inserted', nodes: between(parent, element, next) });
+          }
+          break;
+        }
+      }
+      modifiedCount++;
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'DOM modification failed';
+      break;
+    }
+  }
+
+  if (modifiedCount === 0) {
+    return { success: false, error: error || 'DOM modification failed' };
+  }
+
+  const store = globalThis as unknown as Record<string, DomJournal | undefined>;
+  const journal = store[journalKey] || (store[journalKey] = { nextId: 1, entries: [] });
+  const detail = action.endsWith('Attribute') ? ` ${attributeName}` : action.endsWith('Class') ? ` .${value}` : '';
+  const entry: JournalEntry = {
+    id: journal.nextId++,
+    timestamp: Date.now(),
+    action,
+    selector,
+    summary: `${action}${detail} on ${modifiedCount} element(s) matching ${selector}`,
+    modifiedCount,
+    reverted: false,
+    undo
+  };
+  journal.entries.push(entry);
+  if (journal.entries.length > maxEntries) {
+    journal.entries.splice(0, journal.entries.length - maxEntries);
+  }
+
+  if (error) {
+    return { success: false, error: `${error} (after modifying ${modifiedCount} element(s), recorded as change ${entry.id})`, changeId: entry.id };
+  }
+  return {
+    success: true,
+    modifiedCount,
+    message: `Modified ${modifiedCount} element(s) using ${action}`,
+    changeId: entry.id
+  };
+}
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ */
+export function listJournalEntries(journalKey: string): DomChangeEntry[] {
+  const journal = (globalThis as unknown as Record<string, DomJournal | undefined>)[journalKey];
+  return (journal?.entries || []).map(({ undo: _undo, ...entry }) => entry);
+}
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ *
+ * Undoes one change (changeId, or the most recent one when null) or, with
+ * all set, every change newest first. Refuses to undo a change that a later,
+ * still-applied change touched unless force is set.
+ */
+export function undoJournalEntries(
+  journalKey: string,
+  changeId: number | null,
+  all: boolean,
+  force: boolean
+): UndoResult {
+  const journal = (globalThis as unknown as Record<string, DomJournal | undefined>)[journalKey];
+  const entries = journal?.entries || [];
+  const strip = ({ undo: _undo, ...entry }: JournalEntry): DomChangeEntry => entry;
+
+  const touched = (record: UndoRecord): Node[] => {
+    switch (record.kind) {
+      case 'replace':
+        return [record.original, ...record.inserted];
+      case 'inserted':
+        return record.nodes;
+      default:
+        return [record.el];
+    }
+  };
+  // Attribute and class edits only collide with the same attribute/class,
+  // or with structural edits that swap out the subtree around them
+  const conflicts = (a: UndoRecord, b: UndoRecord): boolean => {
+    const aShallow = a.kind === 'attribute' || a.kind === 'class';
+    const bShallow = b.kind === 'attribute' || b.kind === 'class';
+    if (a.kind === 'attribute' && b.kind === 'attribute') return a.el === b.el && a.name === b.name;
+    if (a.kind === 'class' && b.kind === 'class') return a.el === b.el && a.className === b.className;
+    if (aShallow && bShallow) return false;
+    if (aShallow || bShallow) {
+      const [shallow, structural] = aShallow ? [a, b] : [b, a];
+      const el = (shallow as { el: Element }).el;
+      return touched(structural).some(node =>
+        node === el ? structural.kind !== 'children' : node.contains(el)
+      );
+    }
+    const bNodes = touched(b);
+    return touched(a).some(x => bNodes.some(y => x === y || x.contains(y) || y.contains(x)));
+  };
+  const overlaps = (a: JournalEntry, b: JournalEntry) =>
+    a.undo.some(x => b.undo.some(y => conflicts(x, y)));
+
+  const reinsert = (parent: Node, node: Node, next: Node | null) => {
+    parent.insertBefore(node, next && next.parentNode === parent ? next : null);
+  };
+
+  const revert = (entry: JournalEntry) => {
+    for (const record of [...entry.undo].reverse()) {
+      switch (record.kind) {
+        case 'children':
+          record.el.replaceChildren(...record.nodes);
+          break;
+        case 'replace':
+          record.inserted.forEach(node => node.parentNode?.removeChild(node));
+          reinsert(record.parent, record.original, record.next);
+          break;
+        case 'attribute':
+          if (record.oldValue === null) {
+            record.el.removeAttribute(record.name);
+          } else {
+            record.el.setAttribute(record.name, record.oldValue);
+          }
+          break;
+        case 'class':
+          record.el.classList.toggle(record.className, record.had);
+          break;
+        case 'removed':
+          reinsert(record.parent, record.el, record.next);
+          break;
+        case 'inserted':
+          record.nodes.forEach(node => node.parentNode?.removeChild(node));
+          break;
+      }
+    }
+    entry.reverted = true;
+  };
+
+  const applied = entries.filter(entry => !entry.reverted);
+  if (applied.length === 0) {
+    return { ok: false, error: 'No DOM changes to undo on this page' };
+  }
+
+  try {
+    if (all) {
+      const reverted = [...applied].reverse();
+      reverted.forEach(revert);
+      return { ok: true, reverted: reverted.map(strip), changes: entries.map(strip) };
+    }
+
+    const target = changeId === null
+      ? applied[applied.length - 1]
+      : entries.find(entry => entry.id === changeId);
+    if (!target) {
+      return { ok: false, error: `No DOM change with id ${changeId} (it may have been from a previous page load)` };
+    }
+    if (target.reverted) {
+      return { ok: false, error: `DOM change ${target.id} was already undone` };
+    }
+
+    if (!force) {
+      const blocking = applied.filter(entry => entry.id > target.id && overlaps(target, entry));
+      if (blocking.length > 0) {
+        return {
+          ok: false,
+          error: `DOM change ${target.id} was modified again by change(s) ${blocking.map(e => e.id).join(', ')}; undo those first or pass force`
+        };
+      }
+    }
+
+    revert(target);
+    return { ok: true, reverted: [strip(target)], changes: entries.map(strip) };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : 'Failed to undo DOM change' };
+  }
+}
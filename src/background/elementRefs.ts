@@ -0,0 +1,312 @@
+/**
+ * Element Refs
+ * getDom tags the elements it returns with refs such as "e42", kept in a
+ * registry in the page's isolated world. Actions that take a ref resolve it
+ * back to the live element, and fail with a "stale ref" error once the page
+ * has navigated or the element was re-rendered. Elements inside frames and
+ * shadow roots get refs too; their fallback selectors pierce shadow roots
+ * with ">>>".
+ */
+
+import { injectDomHelpers, runInFrames } from './frames';
+
+export interface ElementRefRegistry {
+  /** First ref number issued in this document; lower ones came from earlier pages */
+  firstId: number;
+  nextId: number;
+  refs: Map<string, { element: WeakRef<Element>; selector: string }>;
+  ids: WeakMap<Element, string>;
+}
+
+export type DomSnapshotResult =
+  | {
+    ok: true;
+    html: string;
+    url: string;
+    title: string;
+    selector: string;
+    /** Fallback selector for every ref in the markup */
+    refs?: Record<string, string>;
+    nextId: number;
+  }
+  | { ok: false; error: string };
+
+type RefLocation =
+  | { ok: true; selector: string }
+  | { ok: false; error: string; known?: boolean };
+
+/** Global the registry is stored under in the isolated world */
+export const ELEMENT_REFS_KEY = '__geminiElementRefs';
+
+/** Attribute carrying the ref in getDom markup */
+export const REF_ATTRIBUTE = 'data-gemini-ref';
+
+const REF_PATTERN = /^e\d+$/;
+
+// Per tab: the next ref number. Numbering carries on across navigations so a
+// ref from an earlier page can't name an element on the current one.
+const nextRefIds = new Map<number, number>();
+
+/**
+ * Forget ref numbering for a tab (tab closed)
+ */
+export function clearElementRefs(tabId: number): void {
+  nextRefIds.delete(tabId);
+}
+
+/**
+ * Ref numbering per tab, for the worker state mirror
+ */
+export function saveElementRefCounters(): Record<string, number> {
+  return Object.fromEntries(nextRefIds);
+}
+
+/**
+ * Pick up ref numbering left behind by a previous worker
+ */
+export function restoreElementRefCounters(saved: Record<string, number> = {}): void {
+  for (const [tabId, nextId] of Object.entries(saved)) {
+    nextRefIds.set(Number(tabId), nextId);
+  }
+}
+
+/**
+ * Read an element's markup (body by default) in one frame, with refs on
+ * every element unless withRefs is false
+ */
+export async function readDomWithRefs(
+  tabId: number,
+  frameId: number,
+  selector: string | undefined,
+  withRefs: boolean
+): Promise<DomSnapshotResult> {
+  await injectDomHelpers(tabId, [frameId]);
+  const results = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [frameId] },
+    func: snapshotDom,
+    args: [ELEMENT_REFS_KEY, REF_ATTRIBUTE, selector || 'body', withRefs, nextRefIds.get(tabId) ?? 1]
+  });
+
+  const result = results[0]?.result as DomSnapshotResult | undefined;
+  if (!result) {
+    return { ok: false, error: 'Failed to read the DOM' };
+  }
+  if (result.ok) {
+    nextRefIds.set(tabId, Math.max(nextRefIds.get(tabId) ?? 1, result.nextId));
+  }
+  return result;
+}
+
+/**
+ * Turn a ref into a selector that matches only its element right now, and
+ * the frame it is in. Refs are numbered per tab, so every given frame is
+ * searched. Throws a "stale ref" error when the element is gone.
+ */
+export async function resolveElementRef(
+  tabId: number,
+  ref: string,
+  frameIds: number[]
+): Promise<{ selector: string; frameId: number }> {
+  if (!REF_PATTERN.test(ref)) {
+    throw new Error(`Invalid ref: ${ref} (refs look like e42, from getDom, or ax12, from getAccessibilityTree)`);
+  }
+
+  const results = await runInFrames(tabId, frameIds, { func: locateRef, args: [ELEMENT_REFS_KEY, ref] });
+  for (const { frameId, result } of results) {
+    if (result?.ok) {
+      return { selector: result.selector, frameId };
+    }
+  }
+
+  // The frame that issued the ref knows best why it no longer resolves
+  const failures = results.map(({ result }) => result).filter(result => result && !result.ok);
+  const failure = failures.find(result => !result!.ok && result!.known) ?? failures[0];
+  throw new Error(failure && !failure.ok ? failure.error : `Failed to resolve ref ${ref}`);
+}
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ *
+ * Serializes an element with a ref on it and every descendant. The page is
+ * left untouched: refs are written into a copy, in the same order as the
+ * live elements they are registered for. An element read twice keeps its ref.
+ * Shadow roots are written out as declarative <template shadowrootmode>.
+ */
+function snapshotDom(
+  registryKey: string,
+  refAttribute: string,
+  selector: string,
+  withRefs: boolean,
+  firstId: number
+): DomSnapshotResult {
+  // Loaded by injectDomHelpers
+  const { shadowRootOf, queryDeep } = globalThis.__geminiDom!;
+
+  let root: Element | undefined;
+  try {
+    root = queryDeep(selector)[0];
+  } catch {
+    return { ok: false, error: `Invalid selector: ${selector}` };
+  }
+  if (!root) {
+    return { ok: false, error: `Element not found: ${selector}` };
+  }
+
+  const page = { url: window.location.href, title: document.title, selector };
+  if (!withRefs) {
+    return { ok: true, html: root.outerHTML, ...page, nextId: firstId };
+  }
+
+  const store = globalThis as unknown as Record<string, ElementRefRegistry | undefined>;
+  const registry = store[registryKey] || (store[registryKey] = {
+    firstId,
+    nextId: firstId,
+    refs: new Map(),
+    ids: new WeakMap()
+  });
+
+  // Ids that look generated by a framework change between renders
+  const stableId = (el: Element): string | null => {
+    if (!el.id || /\d{3,}|^[:_]r[0-9a-z]*:?$/i.test(el.id)) return null;
+    const scope = el.getRootNode() as Document | ShadowRoot;
+    return scope.getElementById(el.id) === el ? `#${CSS.escape(el.id)}` : null;
+  };
+
+  // Tag and position among same-tag siblings, from the nearest element
+  // with a stable id, so each path matches exactly one element
+  const paths = new Map<Element, string>();
+  const segments = new Map<Element, string>();
+  const segmentOf = (el: Element, parent: ParentNode): string => {
+    if (!segments.has(el)) {
+      // Number all of the parent's children at once; long lists would
+      // otherwise be scanned once per item
+      const counts = new Map<string, number>();
+      for (const child of Array.from(parent.children)) {
+        counts.set(child.localName, (counts.get(child.localName) ?? 0) + 1);
+      }
+      const seen = new Map<string, number>();
+      for (const child of Array.from(parent.children)) {
+        const index = (seen.get(child.localName) ?? 0) + 1;
+        seen.set(child.localName, index);
+        const tag = CSS.escape(child.localName);
+        segments.set(child, counts.get(child.localName)! > 1 ? `${tag}:nth-of-type(${index})` : tag);
+      }
+    }
+    return segments.get(el)!;
+  };
+  const pathTo = (el: Element): string => {
+    let path = paths.get(el) ?? stableId(el);
+    if (!path) {
+      const parent = el.parentElement;
+      const scope = el.parentNode;
+      if (parent) {
+        path = `${pathTo(parent)} > ${segmentOf(el, parent)}`;
+      } else if (scope instanceof ShadowRoot) {
+        path = `${pathTo(scope.host)} >>> ${segmentOf(el, scope)}`;
+      } else {
+        path = CSS.escape(el.localName);
+      }
+    }
+    paths.set(el, path);
+    return path;
+  };
+
+  const refs: Record<string, string> = {};
+  const copy = root.cloneNode(true) as Element;
+  const tagAll = (live: HTMLCollection, copied: HTMLCollection) => {
+    for (let i = 0; i < live.length && i < copied.length; i++) {
+      tag(live[i], copied[i]);
+    }
+  };
+  const tag = (live: Element, copied: Element) => {
+    let ref = registry.ids.get(live);
+    const fallback = pathTo(live);
+    if (!ref) {
+      ref = `e${registry.nextId++}`;
+      registry.ids.set(live, ref);
+    }
+    registry.refs.set(ref, { element: new WeakRef(live), selector: fallback });
+    refs[ref] = fallback;
+    copied.setAttribute(refAttribute, ref);
+    tagAll(live.children, copied.children);
+
+    const shadow = shadowRootOf(live);
+    if (shadow) {
+      const template = document.createElement('template');
+      template.setAttribute('shadowrootmode', shadow.mode);
+      for (const node of Array.from(shadow.childNodes)) {
+        template.content.appendChild(node.cloneNode(true));
+      }
+      tagAll(shadow.children, template.content.children);
+      copied.prepend(template);
+    }
+  };
+  tag(root, copy);
+
+  // Drop entries for elements that have since been collected
+  for (const [ref, entry] of registry.refs) {
+    if (!entry.element.deref()) registry.refs.delete(ref);
+  }
+
+  return { ok: true, html: copy.outerHTML, ...page, refs, nextId: registry.nextId };
+}
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ *
+ * Finds the element behind a ref and returns a selector that matches only
+ * it: the fallback selector from getDom if that still holds, otherwise a
+ * fresh path from the nearest ancestor with a unique id.
+ */
+function locateRef(registryKey: string, ref: string): RefLocation {
+  // Loaded by injectDomHelpers
+  const { queryDeep, uniquePath } = globalThis.__geminiDom!;
+  const matchesOnly = (query: string, element: Element): boolean => {
+    try {
+      const matches = queryDeep(query);
+      return matches.length === 1 && matches[0] === element;
+    } catch {
+      return false;
+    }
+  };
+
+  const registry = (globalThis as unknown as Record<string, ElementRefRegistry | undefined>)[registryKey];
+  const entry = registry?.refs.get(ref);
+  if (!entry) {
+    return {
+      ok: false,
+      error: !registry || Number(ref.slice(1)) < registry.firstId
+        ? `Stale ref ${ref}: the page has navigated or reloaded since it was read. Call getDom again for fresh refs.`
+        : `Stale ref ${ref}: no element on this page has that ref any more. Call getDom again for fresh refs.`
+    };
+  }
+
+  const element = entry.element.deref();
+  if (!element || !element.isConnected) {
+    let matches = 0;
+    try {
+      matches = queryDeep(entry.selector).length;
+    } catch {
+      // Fallback selectors are built to be valid; treat a failure as no match
+    }
+    return {
+      ok: false,
+      known: true,
+      error: `Stale ref ${ref}: the element was removed or re-rendered since it was read. ` +
+        `Its fallback selector ${entry.selector} now matches ${matches} element(s); ` +
+        'call getDom again for fresh refs.'
+    };
+  }
+
+  if (matchesOnly(entry.selector, element)) {
+    return { ok: true, selector: entry.selector };
+  }
+
+  const selector = uniquePath(element);
+  if (!matchesOnly(selector, element)) {
+    return { ok: false, known: true, error: `Ref ${ref} can't be turned into a unique selector; use a selector instead` };
+  }
+  return { ok: true, selector };
+}
@@ -0,0 +1,137 @@
+/**
+ * Frames
+ * Picks the frames a DOM action runs in from its frameId, frameUrl and
+ * allFrames params, and runs page functions in each of them
+ */
+
+import type { FrameInfo, FrameTarget } from '../types/messages';
+import { loadSitePolicy, deniedDomainFor } from '../shared/policy';
+
+/** Defines globalThis.__geminiDom, the helpers page functions share */
+const DOM_HELPERS_FILE = 'dist/domHelpers.js';
+
+export interface FrameResult<T> {
+  frameId: number;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * Every frame in a tab, top frame first
+ */
+export async function listFrames(tabId: number): Promise<FrameInfo[]> {
+  const frames = await chrome.webNavigation.getAllFrames({ tabId }) || [];
+  return frames
+    .filter(frame => !frame.errorOccurred)
+    .map(frame => ({ frameId: frame.frameId, parentFrameId: frame.parentFrameId, url: frame.url }))
+    .sort((a, b) => a.frameId - b.frameId);
+}
+
+/**
+ * The URL of the document in one frame, or null if the frame is gone
+ */
+export async function frameUrl(tabId: number, frameId: number): Promise<string | null> {
+  const frame = await chrome.webNavigation.getFrame({ tabId, frameId });
+  return frame && !frame.errorOccurred ? frame.url : null;
+}
+
+/**
+ * Whether a request names frames at all; requests that don't run in the
+ * top frame only, as before
+ */
+export function targetsFrames(target: FrameTarget = {}): boolean {
+  return target.frameId !== undefined || target.frameUrl !== undefined || target.allFrames === true;
+}
+
+/**
+ * The frames a request runs in. frameId picks one frame; frameUrl picks the
+ * first frame whose URL matches, or every match with allFrames. Frames on
+ * denylisted domains are refused when named and skipped otherwise.
+ */
+export async function resolveFrameIds(tabId: number, target: FrameTarget = {}): Promise<number[]> {
+  if (target.frameId !== undefined && !Number.isInteger(target.frameId)) {
+    throw new Error('frameId must be an integer');
+  }
+  if (!targetsFrames(target)) {
+    return [0];
+  }
+
+  const frames = await listFrames(tabId);
+  const policy = await loadSitePolicy();
+
+  if (target.frameId !== undefined) {
+    const frame = frames.find(f => f.frameId === target.frameId);
+    if (!frame) {
+      throw new Error(`No frame with id ${target.frameId} (use listFrames to see the tab's frames)`);
+    }
+    const denied = deniedDomainFor(policy, frame.url);
+    if (denied) {
+      throw new Error(`Frame ${frame.frameId} blocked: ${denied} is on the denylist`);
+    }
+    return [frame.frameId];
+  }
+
+  let matching = frames;
+  if (target.frameUrl !== undefined) {
+    const pattern = globToRegExp(target.frameUrl);
+    matching = frames.filter(frame => pattern.test(frame.url));
+    if (matching.length === 0) {
+      throw new Error(`No frame matches URL: ${target.frameUrl}`);
+    }
+  }
+
+  const allowed = matching.filter(frame => !deniedDomainFor(policy, frame.url));
+  if (allowed.length === 0) {
+    throw new Error('Every matching frame is on a denylisted domain');
+  }
+  return target.allFrames ? allowed.map(frame => frame.frameId) : [allowed[0].frameId];
+}
+
+/**
+ * Load the shared DOM helpers into the isolated world of the given frames,
+ * or the top frame. Page functions that query the DOM need them.
+ */
+export async function injectDomHelpers(tabId: number, frameIds: number[] = [0]): Promise<void> {
+  await chrome.scripting.executeScript({ target: { tabId, frameIds }, files: [DOM_HELPERS_FILE] });
+}
+
+/**
+ * Run a page function in each frame, after the DOM helpers unless it runs
+ * in the main world. A frame that can't be scripted
+ * (about:blank, a sandboxed frame, one that just navigated) reports its
+ * error instead of failing the rest.
+ */
+export async function runInFrames<Args extends unknown[], Result>(
+  tabId: number,
+  frameIds: number[],
+  injection: {
+    func: (...args: Args) => Result;
+    args: Args;
+    world?: chrome.scripting.ExecutionWorld;
+  }
+): Promise<FrameResult<Awaited<Result>>[]> {
+  return Promise.all(frameIds.map(async (frameId): Promise<FrameResult<Awaited<Result>>> => {
+    try {
+      if (injection.world !== 'MAIN') {
+        await injectDomHelpers(tabId, [frameId]);
+      }
+      const [result] = await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [frameId] },
+        world: injection.world,
+        func: injection.func,
+        args: injection.args
+      });
+      return { frameId, result: result?.result as Awaited<Result> | undefined };
+    } catch (error) {
+      return { frameId, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+}
+
+/**
+ * Turn a URL glob, where * matches anything, into an anchored RegExp
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`);
+}
@@ -11,13 +11,195 @@ import type {
   ContentScriptMessage,
   ContentScriptResponse,
   ExtensionMessage,
+  TabTarget,
+  TabInfo,
+  FrameTarget,
+  ScriptException,
+  BrowserAction,
+  ConnectionStatusMessage,
+  SessionChallengeMessage,
+  SessionHelloMessage,
+  BrowserResponseChunkMessage,
+  BinaryPayloadInfo,
+  BinaryFrameHeader,
+  TransferFeature,
+  SessionWelcomeMessage,
+  SessionPairingRequiredMessage,
+  SessionPairedMessage,
+  SessionRejectMessage,
+  WorkerRestartedMessage,
+  TerminalSessionInfo,
+  DomChangeEntry,
+  DomChangesRequestMessage,
+  DomChangesResponse,
 } from '../types/messages';
-
-const BACKEND_URL = 'ws://localhost:3456';
+import { PROTOCOL_VERSION } from '../types/messages';
+import { deniedDomainFor, loadSitePolicy } from '../shared/policy';
+import {
+  resetNetworkLog,
+  clearNetworkLog,
+  clearFinishedNetworkEntries,
+  networkCaptureStart,
+  recordNetworkEvent,
+  getNetworkEntries,
+  withResponseBodies,
+  toHar,
+  type NetworkLogFilter,
+} from './network';
+import {
+  getAccessibilitySnapshot,
+  clearAccessibilityRefs,
+  formatAccessibilityTree,
+  resolveAccessibilityRef,
+  type AccessibilitySnapshotOptions,
+} from './accessibility';
+import { extractReadableContent, type ReadableContentOptions } from './readable';
+import {
+  resolveInputTarget,
+  hover,
+  click,
+  scrollBy,
+  typeText,
+  pressKey,
+  clearFocusedField,
+  type InputTarget,
+  type ResolvedTarget,
+} from './input';
+import { navigateAndWait, waitForNetworkIdle, type WaitUntil } from './navigation';
+import { waitInPage, type PageWaitSpec, type SelectorState } from './wait';
+import { frameUrl, injectDomHelpers, listFrames, resolveFrameIds, runInFrames, targetsFrames } from './frames';
+import {
+  readDomWithRefs,
+  resolveElementRef,
+  clearElementRefs,
+  saveElementRefCounters,
+  restoreElementRefCounters,
+} from './elementRefs';
+import { DEFAULT_PAGE_LENGTH, cursorFrameId, firstPage, nextPage } from './paging';
+import {
+  applyDomModification,
+  listJournalEntries,
+  undoJournalEntries,
+  JOURNAL_KEY,
+  MAX_JOURNAL_ENTRIES,
+  type UndoResult,
+} from './domJournal';
+import {
+  openTerminalSession,
+  closeTerminalSession,
+  renameTerminalSession,
+  resizeTerminalSession,
+  hasTerminalSession,
+  listTerminalSessions,
+  terminalOpenMessages,
+  restoreTerminalSessions,
+  appendTerminalOutput,
+  getTerminalScrollback,
+  saveTerminalScrollback,
+  type SavedScrollback,
+} from './terminals';
+import { recordAuditEntry, getAuditLog, clearAuditLog } from './audit';
+import { assertNotDenied, authorizeRequest, resolveApproval, redeliverApprovals } from './approval';
+import {
+  registerContextMenus,
+  contextMenuDelivery,
+  capturePageContext,
+  queuePageContext,
+  takePendingContexts
+} from './contextMenus';
+import { captureWithDebugger, validateScreenshotOptions, type ScreenshotOptions } from './screenshot';
+import {
+  loadPairingToken,
+  savePairingToken,
+  clearPairingToken,
+  createNonce,
+  createPairingCode,
+  hmacHex,
+  verifyProof,
+} from './auth';
+import {
+  DEFAULT_PROFILE,
+  loadConnectionSettings,
+  onConnectionSettingsChanged,
+  getActiveProfile,
+  profileUrl,
+  type ConnectionProfile,
+} from '../shared/settings';
+
+// Active connection profile; replaced from chrome.storage.sync on startup
+let activeProfile: ConnectionProfile = DEFAULT_PROFILE;
+let backendUrl = profileUrl(DEFAULT_PROFILE);
 let socket: WebSocket | null = null;
 let reconnectAttempts = 0;
-const MAX_RECONNECT_ATTEMPTS = 10;
-const RECONNECT_DELAY = 2000;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Session handshake state (see SessionChallengeMessage for the protocol)
+type SessionState = 'closed' | 'handshaking' | 'pairing' | 'ready';
+let sessionState: SessionState = 'closed';
+let handshakeNonce: string | null = null;
+let challengeNonce: string | null = null;
+let pairingCode: string | null = null;
+let handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+// Set when the backend was refused; suppresses automatic reconnects
+let connectionRefusal: string | null = null;
+// Set when a backend that never proved it holds our token rejected it; the
+// next handshake pairs again instead of sending the token
+let tokenRejected = false;
+const HANDSHAKE_TIMEOUT = 10000;
+// Attachment chunks wait while more than this is queued on the socket
+const MAX_SOCKET_BUFFER = 1024 * 1024;
+// Transfer features offered in session:hello, and the ones the backend accepted
+const TRANSFER_FEATURES: TransferFeature[] = ['responseChunks', 'binaryFrames'];
+let backendFeatures = new Set<string>();
+// Responses larger than this, serialized with any image bytes, are cut
+// down to an error carrying a preview, whatever the backend accepts
+const MAX_RESPONSE_SIZE = 4 * 1024 * 1024;
+const TRUNCATED_PREVIEW_LENGTH = 64 * 1024;
+// Characters per browser:response:chunk, and image bytes per binary frame
+const RESPONSE_CHUNK_SIZE = 512 * 1024;
+
+// Actions advertised to the backend in session:hello
+const SUPPORTED_ACTIONS: BrowserAction[] = [
+  'getDom',
+  'getSelection',
+  'getUrl',
+  'screenshot',
+  'executeScript',
+  'modifyDom',
+  'getConsoleLogs',
+  'getNetworkLog',
+  'getAccessibilityTree',
+  'getReadableContent',
+  'click',
+  'type',
+  'press',
+  'hover',
+  'scroll',
+  'navigate',
+  'back',
+  'forward',
+  'reload',
+  'openTab',
+  'closeTab',
+  'waitFor',
+  'undoDomChange',
+  'revertAll',
+  'listDomChanges',
+  'listFrames',
+];
+
+// Actions that take a ref from getDom in place of a selector
+const REF_ACTIONS = new Set<BrowserAction>(['modifyDom', 'click', 'type', 'press', 'hover', 'scroll', 'screenshot']);
+
+// Actions that may start from, or lead to, pages scripts can't run on
+const NAVIGATION_ACTIONS = new Set<BrowserAction>([
+  'navigate',
+  'back',
+  'forward',
+  'reload',
+  'openTab',
+  'closeTab',
+]);
 
 // Pending browser context requests (used for future async request tracking)
 const _pendingRequests = new Map<string, {
@@ -40,30 +222,66 @@ const consoleLogs = new Map<number, ConsoleLogEntry[]>();
 const attachedTabs = new Set<number>();
 const MAX_LOGS_PER_TAB = 500;
 
+// Worker lifecycle: Chrome suspends idle MV3 service workers, dropping all
+// module state. Tab and debugger state is mirrored into chrome.storage.session
+// so a restarted worker can rebuild it, and socket traffic plus an alarm keep
+// the worker (and the backend connection) alive in the meantime.
+interface PersistedWorkerState {
+  startedAt: number;
+  attachedTabs: number[];
+  consoleLogs: Record<string, ConsoleLogEntry[]>;
+  terminalSessions?: TerminalSessionInfo[];
+  terminalScrollback?: Record<string, SavedScrollback>;
+  elementRefCounters?: Record<string, number>;
+  reconnectAttempts?: number;
+  /** Why the backend at backendUrl was refused, until the user retries */
+  connectionRefusal?: { backendUrl: string; reason: string; tokenRejected: boolean };
+}
+
+const WORKER_STATE_KEY = 'workerState';
+const PERSIST_DELAY = 1000;
+const KEEPALIVE_INTERVAL = 20000;
+const WATCHDOG_ALARM = 'backend-watchdog';
+const workerStartedAt = Date.now();
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+let keepaliveTimer: ReturnType<typeof setInterval> | null = null;
+// Undelivered notice about a previous worker restart
+let restartReport: WorkerRestartedMessage | null = null;
+
 /**
  * Initialize WebSocket connection to backend
  */
 function connectToBackend(): void {
-  if (socket?.readyState === WebSocket.OPEN) {
+  if (socket?.readyState === WebSocket.OPEN || socket?.readyState === WebSocket.CONNECTING) {
     return;
   }
 
-  console.log('[Background] Connecting to backend:', BACKEND_URL);
+  console.log(`[Background] Connecting to backend (${activeProfile.name}):`, backendUrl);
   broadcastToExtension({ type: 'connection:status', status: 'connecting' });
 
   try {
-    socket = new WebSocket(BACKEND_URL);
+    socket = new WebSocket(backendUrl);
 
     socket.onopen = () => {
-      console.log('[Background] Connected to backend');
+      console.log('[Background] Socket open, starting handshake');
       reconnectAttempts = 0;
-      broadcastToExtension({ type: 'connection:status', status: 'connected' });
+      schedulePersistState();
+      startHandshake();
     };
 
     socket.onmessage = (event) => {
       try {
         const message: WebSocketMessage = JSON.parse(event.data);
-        handleBackendMessage(message);
+        if (message.type.startsWith('session:')) {
+          handleSessionMessage(message).catch((error) => {
+            console.error('[Background] Session message failed:', error);
+            refuseConnection('Handshake failed');
+          });
+        } else if (sessionState === 'ready') {
+          handleBackendMessage(message);
+        } else {
+          console.warn('[Background] Dropping message before handshake completed:', message.type);
+        }
       } catch (error) {
         console.error('[Background] Failed to parse message:', error);
       }
@@ -72,6 +290,11 @@ function connectToBackend(): void {
     socket.onclose = () => {
       console.log('[Background] Disconnected from backend');
       socket = null;
+      resetSession();
+      if (connectionRefusal) {
+        broadcastToExtension({ type: 'connection:status', status: 'error', message: connectionRefusal });
+        return;
+      }
       broadcastToExtension({ type: 'connection:status', status: 'disconnected' });
       scheduleReconnect();
     };
@@ -94,10 +317,15 @@ function connectToBackend(): void {
  * Schedule reconnection attempt
  */
 function scheduleReconnect(): void {
-  if (reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+  const { maxReconnectAttempts, reconnectDelay } = activeProfile;
+  if (reconnectAttempts < maxReconnectAttempts) {
     reconnectAttempts++;
-    console.log(`[Background] Reconnecting in ${RECONNECT_DELAY}ms (attempt ${reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS})`);
-    setTimeout(connectToBackend, RECONNECT_DELAY);
+    schedulePersistState();
+    console.log(`[Background] Reconnecting in ${reconnectDelay}ms (attempt ${reconnectAttempts}/${maxReconnectAttempts})`);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connectToBackend();
+    }, reconnectDelay);
   } else {
     console.log('[Background] Max reconnection attempts reached');
     broadcastToExtension({
@@ -108,22 +336,469 @@ function scheduleReconnect(): void {
   }
 }
 
+/**
+ * Whether the active profile's reconnect attempts are used up. The watchdog
+ * and worker startup then leave the connection down until the user
+ * reconnects or edits the profile.
+ */
+function reconnectsExhausted(): boolean {
+  return reconnectAttempts >= activeProfile.maxReconnectAttempts;
+}
+
+/**
+ * Drop the current socket without triggering the reconnect logic
+ */
+function disconnectFromBackend(): void {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (socket) {
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.close();
+    socket = null;
+  }
+  resetSession();
+}
+
+/**
+ * Switch to a connection profile, reconnecting if its endpoint changed
+ */
+function applyConnectionProfile(profile: ConnectionProfile): void {
+  const url = profileUrl(profile);
+  const endpointChanged = url !== backendUrl;
+  activeProfile = profile;
+  backendUrl = url;
+
+  if (!endpointChanged) {
+    // Reconnect policy changes apply from the next attempt; an edit also
+    // lets the watchdog try again after attempts ran out
+    reconnectAttempts = 0;
+    schedulePersistState();
+    return;
+  }
+
+  console.log(`[Background] Switching to profile "${profile.name}" (${url})`);
+  disconnectFromBackend();
+  reconnectAttempts = 0;
+  connectionRefusal = null;
+  tokenRejected = false;
+  schedulePersistState();
+  connectToBackend();
+}
+
+/**
+ * Wait for the backend's session:challenge
+ */
+function startHandshake(): void {
+  sessionState = 'handshaking';
+  handshakeNonce = null;
+  challengeNonce = null;
+  backendFeatures = new Set();
+
+  handshakeTimer = setTimeout(() => {
+    console.warn('[Background] Backend did not complete the handshake');
+    refuseConnection('Backend did not complete the handshake. Is it up to date?');
+  }, HANDSHAKE_TIMEOUT);
+}
+
+/**
+ * Answer the challenge with session:hello, proving knowledge of the pairing
+ * token if we have one
+ */
+async function sendHello(): Promise<void> {
+  handshakeNonce = createNonce();
+  const token = tokenRejected ? null : await loadPairingToken(backendUrl);
+
+  const hello: SessionHelloMessage = {
+    type: 'session:hello',
+    protocolVersion: PROTOCOL_VERSION,
+    extensionVersion: chrome.runtime.getManifest().version,
+    supportedActions: SUPPORTED_ACTIONS,
+    features: TRANSFER_FEATURES,
+    nonce: handshakeNonce,
+    proof: token ? await hmacHex(token, `extension:${handshakeNonces()}`) : undefined
+  };
+  sendOverSocket(hello);
+}
+
+/**
+ * Both sides' nonces, as every handshake proof covers them
+ */
+function handshakeNonces(): string {
+  return `${handshakeNonce}:${challengeNonce}`;
+}
+
+/**
+ * Handle session:* messages from backend
+ */
+async function handleSessionMessage(message: WebSocketMessage): Promise<void> {
+  switch (message.type) {
+    case 'session:challenge': {
+      const challenge = message as SessionChallengeMessage;
+      if (sessionState !== 'handshaking' || challengeNonce) return;
+      if (!checkProtocolVersion(challenge.protocolVersion)) return;
+      if (typeof challenge.nonce !== 'string' || !challenge.nonce) {
+        refuseConnection('Handshake failed: the backend sent no challenge nonce.');
+        return;
+      }
+
+      challengeNonce = challenge.nonce;
+      await sendHello();
+      break;
+    }
+
+    case 'session:welcome': {
+      const welcome = message as SessionWelcomeMessage;
+      if (sessionState !== 'handshaking' || !handshakeNonce || !challengeNonce) return;
+      if (!checkProtocolVersion(welcome.protocolVersion)) return;
+
+      const token = await loadPairingToken(backendUrl);
+      if (!token || !await verifyProof(token, `backend:${handshakeNonces()}`, welcome.proof)) {
+        refuseConnection('Backend failed authentication. Another process may be listening on the backend port.');
+        return;
+      }
+
+      backendFeatures = new Set(welcome.features ?? []);
+      markSessionReady(welcome.supportedActions);
+      break;
+    }
+
+    case 'session:pairingRequired': {
+      const pairing = message as SessionPairingRequiredMessage;
+      if (sessionState !== 'handshaking' || !handshakeNonce || !challengeNonce) return;
+      if (!checkProtocolVersion(pairing.protocolVersion)) return;
+
+      clearHandshakeTimer();
+      backendFeatures = new Set(pairing.features ?? []);
+      sessionState = 'pairing';
+      pairingCode = createPairingCode();
+      console.log('[Background] Pairing required, waiting for code confirmation');
+      broadcastToExtension(currentStatusMessage());
+      break;
+    }
+
+    case 'session:paired': {
+      const paired = message as SessionPairedMessage;
+      if (sessionState !== 'pairing' || !pairingCode || !handshakeNonce || !challengeNonce) return;
+
+      const valid = typeof paired.token === 'string' && paired.token.length > 0 &&
+        await verifyProof(pairingCode, `pair:${handshakeNonces()}:${paired.token}`, paired.proof);
+      if (!valid) {
+        refuseConnection('Pairing failed: the backend did not confirm the code shown in the side panel.');
+        return;
+      }
+
+      await savePairingToken(backendUrl, paired.token);
+      console.log('[Background] Paired with backend');
+      markSessionReady();
+      break;
+    }
+
+    case 'session:reject': {
+      const reject = message as SessionRejectMessage;
+      if (reject.reason === 'auth') {
+        // Only a backend that proved it holds the token may revoke it; anything
+        // else answering on the port could be trying to force a re-pairing
+        if (sessionState === 'ready') {
+          await clearPairingToken(backendUrl);
+        } else {
+          tokenRejected = true;
+          refuseConnection('Backend rejected the saved pairing. If the Gemini Extension server was reset, click Retry to pair again.');
+          return;
+        }
+      }
+      refuseConnection(reject.message || `Backend refused the connection (${reject.reason})`);
+      break;
+    }
+
+    default:
+      console.log('[Background] Unknown session message:', message.type);
+  }
+}
+
+/**
+ * Refuse the connection when the backend speaks another protocol version
+ */
+function checkProtocolVersion(backendVersion: number): boolean {
+  if (backendVersion === PROTOCOL_VERSION) {
+    return true;
+  }
+  const outdated = backendVersion < PROTOCOL_VERSION ? 'backend' : 'extension';
+  refuseConnection(
+    `Protocol version mismatch: extension v${PROTOCOL_VERSION}, backend v${backendVersion}. Please update the ${outdated}.`
+  );
+  return false;
+}
+
+/**
+ * Handshake finished; start relaying terminal and browser messages
+ */
+function markSessionReady(backendActions?: string[]): void {
+  clearHandshakeTimer();
+  sessionState = 'ready';
+  pairingCode = null;
+  tokenRejected = false;
+  console.log('[Background] Connected to backend', backendActions ? `(backend actions: ${backendActions.join(', ')})` : '');
+  broadcastToExtension({ type: 'connection:status', status: 'connected' });
+  startKeepalive();
+  // Recreate the side panel's sessions on this (possibly new) backend
+  terminalOpenMessages().forEach(sendToBackend);
+}
+
+/**
+ * Exchange traffic on the socket often enough that Chrome
+ * doesn't consider the service worker idle
+ */
+function startKeepalive(): void {
+  stopKeepalive();
+  keepaliveTimer = setInterval(() => {
+    sendOverSocket({ type: 'session:keepalive' });
+  }, KEEPALIVE_INTERVAL);
+}
+
+function stopKeepalive(): void {
+  if (keepaliveTimer) {
+    clearInterval(keepaliveTimer);
+    keepaliveTimer = null;
+  }
+}
+
+/**
+ * Close the socket and stop reconnecting until the user retries
+ */
+function refuseConnection(reason: string): void {
+  console.warn('[Background] Refusing backend connection:', reason);
+  connectionRefusal = reason;
+  schedulePersistState();
+  resetSession();
+  socket?.close();
+}
+
+function clearHandshakeTimer(): void {
+  if (handshakeTimer) {
+    clearTimeout(handshakeTimer);
+    handshakeTimer = null;
+  }
+}
+
+function resetSession(): void {
+  clearHandshakeTimer();
+  stopKeepalive();
+  sessionState = 'closed';
+  handshakeNonce = null;
+  challengeNonce = null;
+  pairingCode = null;
+}
+
+/**
+ * Describe the current connection state for the side panel
+ */
+function currentStatusMessage(): ConnectionStatusMessage {
+  if (socket?.readyState === WebSocket.OPEN) {
+    if (sessionState === 'ready') {
+      return { type: 'connection:status', status: 'connected' };
+    }
+    if (sessionState === 'pairing' && pairingCode) {
+      return { type: 'connection:status', status: 'pairing', pairingCode };
+    }
+    return { type: 'connection:status', status: 'connecting' };
+  }
+  if (connectionRefusal) {
+    return { type: 'connection:status', status: 'error', message: connectionRefusal };
+  }
+  return { type: 'connection:status', status: 'disconnected' };
+}
+
+/**
+ * Send message over the socket regardless of session state
+ */
+function sendOverSocket(message: WebSocketMessage): boolean {
+  return sendFrame(JSON.stringify(message));
+}
+
+/**
+ * Send one text or binary frame if the socket is open
+ */
+function sendFrame(frame: string | ArrayBuffer): boolean {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(frame);
+    return true;
+  }
+  return false;
+}
+
 /**
  * Send message to backend
  */
 function sendToBackend(message: WebSocketMessage): boolean {
-  if (socket?.readyState === WebSocket.OPEN) {
-    socket.send(JSON.stringify(message));
+  if (sessionState === 'ready' && sendOverSocket(message)) {
     return true;
   }
-  console.warn('[Background] Cannot send message, socket not connected');
+  console.warn('[Background] Cannot send message, session not established');
   return false;
 }
 
+/**
+ * Resolve once the socket has sent most of what is queued on it, so a large
+ * transfer isn't buffered in the worker all at once
+ */
+async function waitForSocketDrain(): Promise<void> {
+  while (socket?.readyState === WebSocket.OPEN && socket.bufferedAmount > MAX_SOCKET_BUFFER) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+/**
+ * Send a browser response, however large. Screenshots follow as binary
+ * frames when the backend accepts them; responses over the chunk size go
+ * as browser:response:chunk messages; anything over MAX_RESPONSE_SIZE is
+ * replaced with an error holding the start of the data and its size.
+ * Returns the size of what is sent, in bytes, for the audit log.
+ */
+function sendBrowserResponse(response: BrowserContextResponse): number {
+  let image: { mimeType: string; bytes: Uint8Array } | null = null;
+  const dataUrl = (response.data as { dataUrl?: unknown } | undefined)?.dataUrl;
+  const encoded = typeof dataUrl === 'string' ? /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl) : null;
+  if (encoded && backendFeatures.has('binaryFrames')) {
+    image = { mimeType: encoded[1], bytes: Uint8Array.from(atob(encoded[2]), char => char.charCodeAt(0)) };
+    const { dataUrl: _dataUrl, ...rest } = response.data as Record<string, unknown>;
+    const binary: BinaryPayloadInfo = {
+      mimeType: image.mimeType,
+      size: image.bytes.length,
+      frames: Math.max(1, Math.ceil(image.bytes.length / RESPONSE_CHUNK_SIZE))
+    };
+    response = { ...response, data: { ...rest, binary } };
+  }
+
+  let json = JSON.stringify(response);
+  let size = utf8Length(json) + (image?.bytes.length ?? 0);
+  if (size > MAX_RESPONSE_SIZE) {
+    console.warn(`[Background] Response to ${response.requestId} is ${size} bytes, over the limit`);
+    image = null;
+    json = JSON.stringify({
+      type: 'browser:response',
+      requestId: response.requestId,
+      success: false,
+      error: `Response too large (${size} bytes, limit ${MAX_RESPONSE_SIZE}). Read less at once, e.g. getDom with a smaller maxLength or a selector, or a jpeg screenshot.`,
+      data: {
+        truncated: true,
+        size,
+        limit: MAX_RESPONSE_SIZE,
+        preview: JSON.stringify(response.data ?? null).slice(0, TRUNCATED_PREVIEW_LENGTH)
+      },
+      tab: response.tab
+    } satisfies BrowserContextResponse);
+    size = utf8Length(json);
+  }
+
+  if (sessionState !== 'ready') {
+    console.warn('[Background] Cannot send message, session not established');
+  } else {
+    streamBrowserResponse(response.requestId, json, image).catch((error) => {
+      console.error('[Background] Failed to send browser response:', error);
+    });
+  }
+  return size;
+}
+
+/**
+ * Put a serialized response on the socket, in chunks when it is long and
+ * the backend accepts them, followed by its image as binary frames
+ */
+async function streamBrowserResponse(
+  requestId: string,
+  json: string,
+  image: { mimeType: string; bytes: Uint8Array } | null
+): Promise<void> {
+  if (json.length <= RESPONSE_CHUNK_SIZE || !backendFeatures.has('responseChunks')) {
+    sendFrame(json);
+  } else {
+    const chunks = splitText(json, RESPONSE_CHUNK_SIZE);
+    for (let sequence = 0; sequence < chunks.length; sequence++) {
+      await waitForSocketDrain();
+      const chunk: BrowserResponseChunkMessage = {
+        type: 'browser:response:chunk',
+        requestId,
+        sequence,
+        total: chunks.length,
+        data: chunks[sequence]
+      };
+      if (!sendOverSocket(chunk)) return;
+    }
+  }
+
+  if (image) {
+    const total = Math.max(1, Math.ceil(image.bytes.length / RESPONSE_CHUNK_SIZE));
+    for (let sequence = 0; sequence < total; sequence++) {
+      await waitForSocketDrain();
+      const header: BinaryFrameHeader = { requestId, sequence, total };
+      const bytes = image.bytes.subarray(sequence * RESPONSE_CHUNK_SIZE, (sequence + 1) * RESPONSE_CHUNK_SIZE);
+      if (!sendFrame(encodeBinaryFrame(header, bytes))) return;
+    }
+  }
+}
+
+/**
+ * Length of text in UTF-8 bytes, without encoding a copy of it
+ */
+function utf8Length(text: string): number {
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) {
+      length += 1;
+    } else if (code < 0x800) {
+      length += 2;
+    } else if (code >= 0xD800 && code <= 0xDBFF && i + 1 < text.length) {
+      // A surrogate pair is one four-byte character
+      length += 4;
+      i++;
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+}
+
+/**
+ * Split text into pieces of at most size characters, never between the
+ * two halves of a surrogate pair
+ */
+function splitText(text: string, size: number): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + size);
+    if (end < text.length && /[\uD800-\uDBFF]/.test(text[end - 1])) {
+      end--;
+    }
+    pieces.push(text.slice(start, end));
+    start = end;
+  }
+  return pieces;
+}
+
+/**
+ * A binary frame: 4-byte big-endian header length, the header as UTF-8
+ * JSON, then the bytes
+ */
+function encodeBinaryFrame(header: BinaryFrameHeader, bytes: Uint8Array): ArrayBuffer {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const frame = new Uint8Array(4 + headerBytes.length + bytes.length);
+  new DataView(frame.buffer).setUint32(0, headerBytes.length);
+  frame.set(headerBytes, 4);
+  frame.set(bytes, 4 + headerBytes.length);
+  return frame.buffer;
+}
+
 /**
  * Broadcast message to all extension contexts (side panel)
  */
-function broadcastToExtension(message: WebSocketMessage): void {
+function broadcastToExtension(message: WebSocketMessage | ExtensionMessage): void {
   chrome.runtime.sendMessage(message).catch(() => {
     // Ignore errors when no listeners are available
   });
@@ -135,9 +810,15 @@ function broadcastToExtension(message: WebSocketMessage): void {
 async function handleBackendMessage(message: WebSocketMessage): Promise<void> {
   switch (message.type) {
     case 'terminal:output':
-      // Forward terminal output to side panel
+      // Forward terminal output to the side panel tab of its session
+      if (!hasTerminalSession(message.sessionId)) {
+        console.log('[Background] Dropping output for unknown terminal session:', message.sessionId);
+        break;
+      }
       console.log('[Background] Terminal output received:', message.data?.length || 0, 'chars');
-      broadcastToExtension(message);
+      // Buffered so a side panel opened later can replay it
+      broadcastToExtension({ ...message, offset: appendTerminalOutput(message.sessionId, message.data) });
+      schedulePersistState();
       break;
 
     case 'browser:request':
@@ -155,31 +836,78 @@ async function handleBackendMessage(message: WebSocketMessage): Promise<void> {
  */
 async function handleBrowserContextRequest(request: BrowserContextRequest): Promise<void> {
   console.log('[Background] Browser context request:', request.action);
+  const startedAt = Date.now();
+  let tab: chrome.tabs.Tab | undefined;
 
   try {
     let response: BrowserContextResponse;
+    tab = await resolveTargetTab(request.params, NAVIGATION_ACTIONS.has(request.action));
+    if (REF_ACTIONS.has(request.action) && request.params?.ref !== undefined) {
+      // Resolving a ref scripts the page, so the denylist comes first
+      await assertNotDenied(request, tab);
+      request = await resolveRequestRef(request, tab);
+    }
+    // Prompts can stay open while the tab navigates; run on the tab as approved
+    tab = await authorizeRequest(request, tab);
 
     switch (request.action) {
       case 'getDom':
-        response = await getActiveTabDom(request);
+        response = await getActiveTabDom(request, tab);
         break;
       case 'getSelection':
-        response = await getActiveTabSelection(request);
+        response = await getActiveTabSelection(request, tab);
+        break;
+      case 'getReadableContent':
+        response = await getReadableContent(request, tab);
         break;
       case 'getUrl':
-        response = await getActiveTabUrl(request);
+        response = await getActiveTabUrl(request, tab);
         break;
       case 'screenshot':
-        response = await captureActiveTabScreenshot(request);
+        response = await captureActiveTabScreenshot(request, tab);
         break;
       case 'executeScript':
-        response = await executeScriptInTab(request);
+        response = await executeScriptInTab(request, tab);
         break;
       case 'modifyDom':
-        response = await modifyDomInTab(request);
+        response = await modifyDomInTab(request, tab);
+        break;
+      case 'undoDomChange':
+      case 'revertAll':
+        response = await undoDomChangeInTab(request, tab);
+        break;
+      case 'listDomChanges':
+        response = await listDomChangesInTab(request, tab);
+        break;
+      case 'listFrames':
+        response = await listFramesInTab(request, tab);
         break;
       case 'getConsoleLogs':
-        response = await getConsoleLogs(request);
+        response = await getConsoleLogs(request, tab);
+        break;
+      case 'getNetworkLog':
+        response = await getNetworkLog(request, tab);
+        break;
+      case 'getAccessibilityTree':
+        response = await getAccessibilityTree(request, tab);
+        break;
+      case 'click':
+      case 'type':
+      case 'press':
+      case 'hover':
+      case 'scroll':
+        response = await performInputAction(request, tab);
+        break;
+      case 'navigate':
+      case 'back':
+      case 'forward':
+      case 'reload':
+      case 'openTab':
+      case 'closeTab':
+        response = await performNavigationAction(request, tab);
+        break;
+      case 'waitFor':
+        response = await waitForCondition(request, tab);
         break;
       default:
         response = {
@@ -190,39 +918,185 @@ async function handleBrowserContextRequest(request: BrowserContextRequest): Prom
         };
     }
 
-    sendToBackend(response);
+    // Handlers that move to another tab report it themselves
+    finishBrowserRequest(request, { tab: describeTab(tab), ...response }, startedAt);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    sendToBackend({
+    finishBrowserRequest(request, {
       type: 'browser:response',
       requestId: request.requestId,
       success: false,
-      error: errorMessage
-    });
+      error: errorMessage,
+      tab: tab ? describeTab(tab) : undefined
+    }, startedAt);
+  }
+}
+
+/**
+ * Replace a request's ref with a selector for the element it names, so the
+ * approval prompt and the action itself see an ordinary selector
+ */
+async function resolveRequestRef(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextRequest> {
+  const params = request.params!;
+  if (typeof params.ref !== 'string') {
+    throw new Error('ref must be a string such as e42 or ax12');
+  }
+  if (params.selector !== undefined) {
+    throw new Error('Pass either ref or selector, not both');
+  }
+  // Accessibility refs name top-frame nodes and resolve through the debugger
+  if (params.ref.startsWith('ax')) {
+    if (targetsFrames(params) && params.frameId !== 0) {
+      throw new Error(`Ref ${params.ref} is from getAccessibilityTree, which only reads the top frame`);
+    }
+    await ensureDebuggerAttached(tab.id!);
+    const selector = await resolveAccessibilityRef(tab.id!, params.ref);
+    const { frameUrl: _frameUrl, allFrames: _allFrames, ...rest } = params;
+    return { ...request, params: { ...rest, selector, frameId: 0 } };
+  }
+  // A ref names one element, so the action runs in the frame that has it
+  const frameIds = await resolveFrameIds(tab.id!, targetsFrames(params) ? params : { allFrames: true });
+  const { selector, frameId } = await resolveElementRef(tab.id!, params.ref, frameIds);
+  const { frameUrl: _frameUrl, allFrames: _allFrames, ...rest } = params;
+  return { ...request, params: { ...rest, selector, frameId } };
+}
+
+type FrameOutcome = { frameId: number; data?: object; error?: string };
+
+/**
+ * Build the response for a request that ran in one or more frames. A single
+ * frame answers as the top frame always has; with allFrames, the frames that
+ * succeeded are listed under frames and the rest under failed.
+ */
+function frameResponse(request: BrowserContextRequest, outcomes: FrameOutcome[]): BrowserContextResponse {
+  const params = request.params;
+  if (!params?.allFrames) {
+    const [{ frameId, data, error }] = outcomes;
+    const withFrame = data && targetsFrames(params) ? { ...data, frameId } : data;
+    return error !== undefined
+      ? { type: 'browser:response', requestId: request.requestId, success: false, error, data: withFrame }
+      : { type: 'browser:response', requestId: request.requestId, success: true, data: withFrame };
+  }
+
+  const frames = outcomes.filter(o => o.error === undefined).map(({ frameId, data }) => ({ frameId, ...data }));
+  const failed = outcomes.filter(o => o.error !== undefined).map(({ frameId, error, data }) => ({ frameId, error, ...data }));
+  if (frames.length === 0) {
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: false,
+      error: failed[0]?.error ?? 'No frame to run in',
+      data: { failed }
+    };
+  }
+  return {
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: true,
+    data: { frames, ...(failed.length > 0 ? { failed } : {}) }
+  };
+}
+
+/**
+ * The one frame an action that can't merge results runs in
+ */
+async function resolveSingleFrame(request: BrowserContextRequest, tab: chrome.tabs.Tab): Promise<number> {
+  if (request.params?.allFrames) {
+    throw new Error(`${request.action} runs in one frame at a time; pass frameId or frameUrl instead of allFrames`);
   }
+  const [frameId] = await resolveFrameIds(tab.id!, request.params);
+  return frameId;
+}
+
+/**
+ * Send a browser response to the backend and record it in the audit log
+ */
+function finishBrowserRequest(
+  request: BrowserContextRequest,
+  response: BrowserContextResponse,
+  startedAt: number
+): void {
+  const payloadSize = sendBrowserResponse(response);
+  const entry = recordAuditEntry(request, response, startedAt, payloadSize);
+  broadcastToExtension({ type: 'audit:appended', entry });
+}
+
+
+
+/**
+ * Check whether a URL belongs to a page extensions are not allowed to script
+ */
+function isRestrictedUrl(url: string): boolean {
+  return url.startsWith('chrome://') || url.startsWith('chrome-extension://') ||
+    url.startsWith('edge://') || url.startsWith('about:') ||
+    url.startsWith('devtools://');
 }
 
 /**
- * Get the active tab
+ * Resolve the tab a request should run against.
+ * Uses tabId, urlPattern or windowId from the request params when given,
+ * otherwise the active tab of the last focused window.
+ * Navigation actions pass allowRestricted since they never script the page.
  */
-async function getActiveTab(): Promise<chrome.tabs.Tab> {
-  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+async function resolveTargetTab(target: TabTarget = {}, allowRestricted = false): Promise<chrome.tabs.Tab> {
+  let tab: chrome.tabs.Tab | undefined;
+
+  if (typeof target.tabId === 'number') {
+    try {
+      tab = await chrome.tabs.get(target.tabId);
+    } catch {
+      throw new Error(`No tab found with id ${target.tabId}`);
+    }
+  } else if (target.urlPattern) {
+    const query: chrome.tabs.QueryInfo = { url: target.urlPattern };
+    if (typeof target.windowId === 'number') {
+      query.windowId = target.windowId;
+    }
+    const tabs = await chrome.tabs.query(query);
+    // Prefer a visible match so repeated requests keep hitting the same page
+    tab = tabs.find(t => t.active) || tabs[0];
+    if (!tab) {
+      throw new Error(`No tab matches URL pattern: ${target.urlPattern}`);
+    }
+  } else if (typeof target.windowId === 'number') {
+    [tab] = await chrome.tabs.query({ active: true, windowId: target.windowId });
+    if (!tab) {
+      throw new Error(`No active tab found in window ${target.windowId}`);
+    }
+  } else {
+    [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  }
+
   if (!tab?.id) {
     throw new Error('No active tab found');
   }
 
   // Check for restricted URLs
   const url = tab.url || '';
-  if (url.startsWith('chrome://') || url.startsWith('chrome-extension://') ||
-      url.startsWith('edge://') || url.startsWith('about:') ||
-      url.startsWith('devtools://')) {
+  if (!allowRestricted && isRestrictedUrl(url)) {
     throw new Error(`Cannot access restricted page: ${url.split('/')[0]}//...`);
   }
 
-  console.log('[Background] Active tab:', tab.id, url.slice(0, 50));
+  console.log('[Background] Target tab:', tab.id, url.slice(0, 50));
   return tab;
 }
 
+/**
+ * Summarize a tab for inclusion in a browser response
+ */
+function describeTab(tab: chrome.tabs.Tab): TabInfo {
+  return {
+    id: tab.id!,
+    windowId: tab.windowId,
+    url: tab.url,
+    title: tab.title,
+    active: tab.active
+  };
+}
+
 /**
  * Send message to content script and wait for response
  * (Currently unused but available for future content script communication)
@@ -246,84 +1120,212 @@ async function _sendToContentScript(
     });
   });
 }
-void _sendToContentScript; // Silence unused warning
 
 /**
- * Get DOM from active tab
+ * Start or stop the element picker in the active tab. Tabs loaded before
+ * the extension have no content script yet, so it is injected on demand.
  */
-async function getActiveTabDom(request: BrowserContextRequest): Promise<BrowserContextResponse> {
-  const tab = await getActiveTab();
-
-  // Use scripting API to get DOM
-  const results = await chrome.scripting.executeScript({
-    target: { tabId: tab.id! },
-    func: (options: { includeStyles?: boolean; selector?: string }) => {
-      const selector = options?.selector || 'body';
-      const element = document.querySelector(selector);
-      if (!element) {
-        return { html: null, error: `Element not found: ${selector}` };
-      }
+async function controlElementPicker(type: 'content:startPicker' | 'content:stopPicker'): Promise<void> {
+  const tab = await resolveTargetTab();
+  const message: ContentScriptMessage = { type, requestId: crypto.randomUUID() };
+  try {
+    await _sendToContentScript(tab.id!, message);
+  } catch (error) {
+    if (type === 'content:stopPicker') return;
+    console.log('[Background] Injecting content script for the picker:', error);
+    await chrome.scripting.executeScript({ target: { tabId: tab.id! }, files: ['dist/content.js'] });
+    await _sendToContentScript(tab.id!, message);
+  }
+}
 
-      return {
-        html: element.outerHTML,
-        url: window.location.href,
-        title: document.title,
-        selector
-      };
-    },
-    args: [request.params as { includeStyles?: boolean; selector?: string } || {}]
+/**
+ * Start the picker, telling the side panel if it can't
+ */
+function startElementPicker(): void {
+  controlElementPicker('content:startPicker').catch((error) => {
+    console.error('[Background] Failed to start element picker:', error);
+    broadcastToExtension({
+      type: 'picker:result',
+      error: error instanceof Error ? error.message : 'Failed to start the element picker'
+    });
   });
+}
 
-  const result = results[0]?.result;
-  if (result?.error) {
-    return {
-      type: 'browser:response',
-      requestId: request.requestId,
-      success: false,
-      error: result.error
-    };
+/**
+ * Get DOM from target tab, with a ref on every element for later actions.
+ * Markup longer than maxLength comes a page at a time; pass the returned
+ * cursor and nextOffset back for the next page.
+ */
+async function getActiveTabDom(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const params = request.params as FrameTarget & {
+    selector?: string;
+    includeRefs?: boolean;
+    maxLength?: number;
+    offset?: number;
+    cursor?: string;
+  } | undefined;
+  const maxLength = params?.maxLength ?? DEFAULT_PAGE_LENGTH;
+  const offset = params?.offset ?? 0;
+
+  // Later pages come from the markup kept by the first read, not the page,
+  // and only to the frame and document it was read from
+  if (params?.cursor !== undefined) {
+    try {
+      if (params.frameUrl !== undefined || params.allFrames) {
+        throw new Error('cursor pages through one frame; pass frameId, not frameUrl or allFrames');
+      }
+      const [frameId] = await resolveFrameIds(tab.id!, { frameId: params.frameId ?? cursorFrameId(params.cursor) });
+      const url = await frameUrl(tab.id!, frameId) ?? '';
+      const data = nextPage(params.cursor, { tabId: tab.id!, frameId, url }, offset, maxLength);
+      return { type: 'browser:response', requestId: request.requestId, success: true, data };
+    } catch (error) {
+      return { type: 'browser:response', requestId: request.requestId, success: false, error: error instanceof Error ? error.message : 'Failed to read the page' };
+    }
   }
 
-  return {
-    type: 'browser:response',
-    requestId: request.requestId,
-    success: true,
-    data: result
-  };
+  const frameIds = await resolveFrameIds(tab.id!, params);
+
+  // One frame at a time, so refs are numbered without overlap across frames
+  const outcomes: FrameOutcome[] = [];
+  for (const frameId of frameIds) {
+    try {
+      const url = await frameUrl(tab.id!, frameId) ?? '';
+      const result = await readDomWithRefs(tab.id!, frameId, params?.selector, params?.includeRefs ?? true);
+      if (result.ok) {
+        const { ok: _ok, nextId: _nextId, html, refs, ...details } = result;
+        const source = { tabId: tab.id!, frameId, url };
+        outcomes.push({ frameId, data: firstPage(html, refs, details, source, offset, maxLength) });
+      } else {
+        outcomes.push({ frameId, error: result.error });
+      }
+    } catch (error) {
+      outcomes.push({ frameId, error: error instanceof Error ? error.message : 'Failed to read the DOM' });
+    }
+  }
+  return frameResponse(request, outcomes);
 }
 
 /**
- * Get selected text from active tab
+ * Get selected text from target tab
  */
-async function getActiveTabSelection(request: BrowserContextRequest): Promise<BrowserContextResponse> {
-  const tab = await getActiveTab();
+async function getActiveTabSelection(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const params = request.params as FrameTarget & { selector?: string } | undefined;
+  const frameIds = await resolveFrameIds(tab.id!, params);
+  const results = await runInFrames(tab.id!, frameIds, { func: readSelection, args: [params?.selector ?? null] });
+
+  return frameResponse(request, results.map(({ frameId, result, error }) => {
+    if (!result) {
+      return { frameId, error: error ?? 'Failed to read the selection' };
+    }
+    return 'error' in result ? { frameId, error: result.error } : { frameId, data: result };
+  }));
+}
 
-  const results = await chrome.scripting.executeScript({
-    target: { tabId: tab.id! },
-    func: () => {
-      const selection = window.getSelection();
-      return {
-        text: selection?.toString() || '',
-        url: window.location.href,
-        title: document.title
-      };
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ *
+ * Reads the selected text. With a selector, reads the selection inside that
+ * element's shadow root, or the part of the page selection within it.
+ * Without one, follows focus into shadow roots, whose selections the
+ * document can't see.
+ */
+function readSelection(selector: string | null): { text: string; url: string; title: string } | { error: string } {
+  // Loaded by injectDomHelpers
+  const { shadowRootOf, queryDeep } = globalThis.__geminiDom!;
+  // Chrome-only: a shadow root's own view of the selection
+  const selectionIn = (root: ShadowRoot) =>
+    (root as ShadowRoot & { getSelection?: () => Selection | null }).getSelection?.() ?? null;
+  const page = { url: window.location.href, title: document.title };
+
+  if (!selector) {
+    let selection = window.getSelection();
+    for (let active = document.activeElement; active;) {
+      const root = shadowRootOf(active);
+      if (!root) break;
+      const inner = selectionIn(root);
+      if (inner && !inner.isCollapsed) selection = inner;
+      active = root.activeElement;
     }
-  });
+    return { text: selection?.toString() || '', ...page };
+  }
 
-  return {
-    type: 'browser:response',
-    requestId: request.requestId,
-    success: true,
-    data: results[0]?.result
-  };
+  let scope: Element | undefined;
+  try {
+    scope = queryDeep(selector)[0];
+  } catch {
+    return { error: `Invalid selector: ${selector}` };
+  }
+  if (!scope) {
+    return { error: `Element not found: ${selector}` };
+  }
+
+  const root = shadowRootOf(scope);
+  if (root) {
+    return { text: selectionIn(root)?.toString() || '', ...page };
+  }
+
+  const selection = (scope.getRootNode() instanceof ShadowRoot
+    ? selectionIn(scope.getRootNode() as ShadowRoot)
+    : null) ?? window.getSelection();
+  const bounds = document.createRange();
+  bounds.selectNodeContents(scope);
+  const parts: string[] = [];
+  for (let i = 0; i < (selection?.rangeCount ?? 0); i++) {
+    const range = selection!.getRangeAt(i).cloneRange();
+    if (!range.intersectsNode(scope)) continue;
+    // Clip the range to the element
+    if (range.compareBoundaryPoints(Range.START_TO_START, bounds) < 0) {
+      range.setStart(bounds.startContainer, bounds.startOffset);
+    }
+    if (range.compareBoundaryPoints(Range.END_TO_END, bounds) > 0) {
+      range.setEnd(bounds.endContainer, bounds.endOffset);
+    }
+    parts.push(range.toString());
+  }
+  return { text: parts.join('\n'), ...page };
 }
 
 /**
- * Get URL of active tab
+ * Get the main content of target tab as Markdown
  */
-async function getActiveTabUrl(request: BrowserContextRequest): Promise<BrowserContextResponse> {
-  const tab = await getActiveTab();
+async function getReadableContent(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const params = request.params as FrameTarget & ReadableContentOptions;
+  const frameIds = await resolveFrameIds(tab.id!, params);
+
+  const results = await runInFrames(tab.id!, frameIds, {
+    func: extractReadableContent,
+    args: [{
+      selector: params?.selector,
+      includeImages: params?.includeImages ?? false,
+      maxLength: params?.maxLength
+    }]
+  });
 
+  return frameResponse(request, results.map(({ frameId, result, error }) => {
+    if (!result || result.error) {
+      return { frameId, error: result?.error || error || 'Failed to extract readable content' };
+    }
+    return { frameId, data: result };
+  }));
+}
+
+/**
+ * Get URL of target tab
+ */
+async function getActiveTabUrl(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
   return {
     type: 'browser:response',
     requestId: request.requestId,
@@ -337,13 +1339,56 @@ async function getActiveTabUrl(request: BrowserContextRequest): Promise<BrowserC
 }
 
 /**
- * Capture screenshot of active tab
+ * Capture screenshot of target tab
+ * The visible viewport of an active tab uses captureVisibleTab; full-page,
+ * element, clipped, scaled, webp and background-tab captures use the debugger
  */
-async function captureActiveTabScreenshot(request: BrowserContextRequest): Promise<BrowserContextResponse> {
+async function captureActiveTabScreenshot(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const options = (request.params || {}) as ScreenshotOptions;
+
+  // Captures are clipped in top-frame page coordinates
+  if (targetsFrames(request.params) && request.params?.frameId !== 0) {
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: false,
+      error: 'screenshot only captures elements in the top frame'
+    };
+  }
+
+  const problem = validateScreenshotOptions(options);
+  if (problem) {
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: false,
+      error: problem
+    };
+  }
+
+  const needsDebugger = !tab.active || options.fullPage || options.selector || options.clip ||
+    options.scale !== undefined || options.maxDimension !== undefined || options.format === 'webp';
+
   try {
-    const dataUrl = await chrome.tabs.captureVisibleTab({
-      format: 'png',
-      quality: 90
+    if (needsDebugger) {
+      await ensureDebuggerAttached(tab.id!);
+      const result = await captureWithDebugger(tab.id!, options);
+      return {
+        type: 'browser:response',
+        requestId: request.requestId,
+        success: true,
+        data: result
+      };
+    }
+
+    const format = options.format === 'jpeg' ? 'jpeg' : 'png';
+    const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, {
+      format,
+      // quality is ignored for png
+      ...(format === 'jpeg' && { quality: options.quality ?? 80 })
     });
 
     return {
@@ -352,7 +1397,7 @@ async function captureActiveTabScreenshot(request: BrowserContextRequest): Promi
       success: true,
       data: {
         dataUrl,
-        format: 'png'
+        format
       }
     };
   } catch (error) {
@@ -365,16 +1410,27 @@ async function captureActiveTabScreenshot(request: BrowserContextRequest): Promi
   }
 }
 
+const SCRIPT_TIMEOUT = 30000;
+const MAX_SCRIPT_RESULT_SIZE = 512 * 1024;
+const MAX_SCRIPT_RESULT_DEPTH = 20;
 
 /**
- * Execute script in active tab
+ * Execute script in target tab
  * Uses MAIN world to bypass CSP restrictions
  */
-async function executeScriptInTab(request: BrowserContextRequest): Promise<BrowserContextResponse> {
+async function executeScriptInTab(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
   console.log('[Background] executeScriptInTab called');
-  const tab = await getActiveTab();
-  console.log('[Background] Active tab:', tab.id, tab.url);
-  const script = (request.params as { script?: string })?.script;
+  console.log('[Background] Target tab:', tab.id, tab.url);
+  const params = request.params as FrameTarget & {
+    script?: string;
+    timeout?: number;
+    maxResultSize?: number;
+    maxDepth?: number;
+  };
+  const script = params?.script;
 
   if (!script) {
     console.log('[Background] No script provided');
@@ -389,40 +1445,40 @@ async function executeScriptInTab(request: BrowserContextRequest): Promise<Brows
   console.log('[Background] Executing script, length:', script.length);
 
   try {
-    // Wrap user script in an IIFE that catches errors and returns result
+    // Wrap user script in an async function so it can `return` and `await`;
+    // the resulting promise is parked on window under a one-off key
+    const resultKey = `__geminiScriptResult_${request.requestId}`;
     const wrappedScript = `
-      (function() {
-        try {
-          ${script}
-        } catch (e) {
-          return { __error: e.message || 'Script execution failed' };
-        }
+      window[${JSON.stringify(resultKey)}] = (async function() {
+        ${script}
       })();
     `;
 
+    const frameIds = await resolveFrameIds(tab.id!, params);
+
     // Use MAIN world to run in page context and bypass CSP
-    const results = await chrome.scripting.executeScript({
-      target: { tabId: tab.id! },
+    const results = await runInFrames(tab.id!, frameIds, {
       world: 'MAIN',
-      func: (code: string) => {
-        const scriptEl = document.createElement('script');
-        scriptEl.textContent = code;
-        document.documentElement.appendChild(scriptEl);
-        scriptEl.remove();
-        return { success: true };
-      },
-      args: [wrappedScript]
+      func: runInjectedScript,
+      args: [
+        wrappedScript,
+        resultKey,
+        params.timeout ?? SCRIPT_TIMEOUT,
+        params.maxResultSize ?? MAX_SCRIPT_RESULT_SIZE,
+        params.maxDepth ?? MAX_SCRIPT_RESULT_DEPTH
+      ]
     });
 
     console.log('[Background] Script injected');
-    const result = results[0]?.result;
-
-    return {
-      type: 'browser:response',
-      requestId: request.requestId,
-      success: true,
-      data: result
-    };
+    return frameResponse(request, results.map(({ frameId, result, error }) => {
+      if (!result) {
+        return { frameId, error: error ?? 'Script produced no result' };
+      }
+      if (!result.ok) {
+        return { frameId, error: result.exception.message, data: { exception: result.exception } };
+      }
+      return { frameId, data: { result: result.value, truncated: result.truncated } };
+    }));
   } catch (error) {
     console.error('[Background] executeScript error:', error);
     return {
@@ -434,14 +1490,243 @@ async function executeScriptInTab(request: BrowserContextRequest): Promise<Brows
   }
 }
 
+type InjectedScriptResult =
+  | { ok: true; value: unknown; truncated: boolean }
+  | { ok: false; exception: ScriptException };
+
 /**
- * Modify DOM elements in active tab
+ * Injected into the page's MAIN world by executeScriptInTab.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ *
+ * Runs the wrapped script through a <script> element, awaits the promise it
+ * leaves on window, and serializes the value with structured-clone-like rules
+ * (DOM nodes summarized, cycles marked, output capped at maxSize characters).
  */
-async function modifyDomInTab(request: BrowserContextRequest): Promise<BrowserContextResponse> {
-  console.log('[Background] modifyDomInTab called');
-  const tab = await getActiveTab();
+async function runInjectedScript(
+  code: string,
+  resultKey: string,
+  timeout: number,
+  maxSize: number,
+  maxDepth: number
+): Promise<InjectedScriptResult> {
+  const win = window as unknown as Record<string, unknown>;
+
+  const toException = (e: unknown): ScriptException => {
+    if (e instanceof Error) {
+      return { name: e.name, message: e.message || 'Script execution failed', stack: e.stack };
+    }
+    return { name: 'Error', message: `Uncaught ${String(e)}` };
+  };
 
-  const params = request.params as {
+  const scriptEl = document.createElement('script');
+  scriptEl.textContent = code;
+  document.documentElement.appendChild(scriptEl);
+  scriptEl.remove();
+
+  let pending = win[resultKey];
+  delete win[resultKey];
+
+  if (pending === undefined) {
+    // Inline scripts were blocked by the page's CSP; fall back to eval,
+    // which is allowed on pages that permit 'unsafe-eval'
+    try {
+      new Function(code)();
+      pending = win[resultKey];
+      delete win[resultKey];
+    } catch (e) {
+      if (e instanceof EvalError) {
+        return {
+          ok: false,
+          exception: {
+            name: 'EvalError',
+            message: 'Script blocked by the page Content-Security-Policy'
+          }
+        };
+      }
+      return { ok: false, exception: toException(e) };
+    }
+  }
+
+  let value: unknown;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    value = await Promise.race([
+      pending,
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Script timed out after ${timeout}ms`)), timeout);
+      })
+    ]);
+  } catch (e) {
+    return { ok: false, exception: toException(e) };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  let budget = maxSize;
+  let truncated = false;
+  const seen = new Map<object, string>();
+
+  const spend = (n: number): boolean => {
+    budget -= n;
+    if (budget < 0) {
+      truncated = true;
+      return false;
+    }
+    return true;
+  };
+
+  const describeNode = (node: Node): unknown => {
+    if (node instanceof Element) {
+      return {
+        __type: 'Element',
+        tagName: node.tagName.toLowerCase(),
+        id: node.id || undefined,
+        className: typeof node.className === 'string' && node.className ? node.className : undefined,
+        text: (node.textContent || '').trim().slice(0, 200)
+      };
+    }
+    return {
+      __type: 'Node',
+      nodeName: node.nodeName,
+      text: (node.textContent || '').trim().slice(0, 200)
+    };
+  };
+
+  const serialize = (input: unknown, path: string, depth: number): unknown => {
+    if (input === null) return null;
+
+    switch (typeof input) {
+      case 'string':
+        if (!spend(input.length + 2)) {
+          return input.slice(0, Math.max(0, input.length + budget));
+        }
+        return input;
+      case 'number':
+        spend(8);
+        return Number.isFinite(input) ? input : { __type: 'number', value: String(input) };
+      case 'boolean':
+        spend(5);
+        return input;
+      case 'undefined':
+        spend(10);
+        return { __type: 'undefined' };
+      case 'bigint':
+        spend(16);
+        return { __type: 'bigint', value: input.toString() };
+      case 'symbol':
+        spend(16);
+        return { __type: 'symbol', description: input.description };
+      case 'function':
+        spend(16);
+        return { __type: 'function', name: input.name || '(anonymous)' };
+    }
+
+    const obj = input as object;
+    const seenPath = seen.get(obj);
+    if (seenPath !== undefined) {
+      return { __type: 'Circular', path: seenPath };
+    }
+    if (depth >= maxDepth) {
+      truncated = true;
+      return { __type: 'MaxDepth' };
+    }
+
+    if (obj instanceof Node) {
+      spend(64);
+      return describeNode(obj);
+    }
+    if (obj instanceof Date) {
+      spend(32);
+      return { __type: 'Date', value: isNaN(obj.getTime()) ? 'Invalid Date' : obj.toISOString() };
+    }
+    if (obj instanceof RegExp) {
+      spend(obj.source.length + 16);
+      return { __type: 'RegExp', source: obj.source, flags: obj.flags };
+    }
+    if (obj instanceof Error) {
+      spend(64);
+      return { __type: 'Error', name: obj.name, message: obj.message, stack: obj.stack };
+    }
+    if (obj instanceof ArrayBuffer || ArrayBuffer.isView(obj)) {
+      spend(32);
+      return { __type: obj.constructor.name, byteLength: (obj as ArrayBuffer).byteLength };
+    }
+
+    seen.set(obj, path);
+
+    try {
+      if (obj instanceof Map) {
+        const entries: unknown[] = [];
+        let i = 0;
+        for (const [k, v] of obj) {
+          if (budget <= 0) { truncated = true; break; }
+          entries.push([serialize(k, `${path}.<key ${i}>`, depth + 1), serialize(v, `${path}.<value ${i}>`, depth + 1)]);
+          i++;
+        }
+        return { __type: 'Map', size: obj.size, entries };
+      }
+      if (obj instanceof Set) {
+        const values: unknown[] = [];
+        let i = 0;
+        for (const v of obj) {
+          if (budget <= 0) { truncated = true; break; }
+          values.push(serialize(v, `${path}.<${i}>`, depth + 1));
+          i++;
+        }
+        return { __type: 'Set', size: obj.size, values };
+      }
+      if (Array.isArray(obj) || obj instanceof NodeList || obj instanceof HTMLCollection) {
+        const items = Array.from(obj as ArrayLike<unknown>);
+        const out: unknown[] = [];
+        for (let i = 0; i < items.length; i++) {
+          if (budget <= 0) {
+            truncated = true;
+            out.push({ __type: 'Truncated', remaining: items.length - i });
+            break;
+          }
+          out.push(serialize(items[i], `${path}[${i}]`, depth + 1));
+        }
+        return out;
+      }
+
+      const out: Record<string, unknown> = {};
+      for (const key of Object.keys(obj)) {
+        if (budget <= 0) {
+          truncated = true;
+          out.__truncated = true;
+          break;
+        }
+        spend(key.length + 4);
+        let prop: unknown;
+        try {
+          prop = (obj as Record<string, unknown>)[key];
+        } catch (e) {
+          prop = { __type: 'Error', message: e instanceof Error ? e.message : String(e) };
+        }
+        out[key] = serialize(prop, `${path}.${key}`, depth + 1);
+      }
+      return out;
+    } finally {
+      seen.delete(obj);
+    }
+  };
+
+  try {
+    return { ok: true, value: serialize(value, '$', 0), truncated };
+  } catch (e) {
+    return { ok: false, exception: toException(e) };
+  }
+}
+
+/**
+ * Modify DOM elements in target tab
+ */
+async function modifyDomInTab(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  console.log('[Background] modifyDomInTab called');
+  const params = request.params as FrameTarget & {
     selector?: string;
     action?: string;
     value?: string;
@@ -454,7 +1739,7 @@ async function modifyDomInTab(request: BrowserContextRequest): Promise<BrowserCo
       type: 'browser:response',
       requestId: request.requestId,
       success: false,
-      error: 'No selector provided'
+      error: 'No selector or ref provided'
     };
   }
 
@@ -468,131 +1753,186 @@ async function modifyDomInTab(request: BrowserContextRequest): Promise<BrowserCo
   }
 
   try {
-    const results = await chrome.scripting.executeScript({
-      target: { tabId: tab.id! },
-      func: (selector: string, action: string, value: string | null, attributeName: string | null, all: boolean) => {
-        try {
-          const elements = all
-            ? Array.from(document.querySelectorAll(selector))
-            : [document.querySelector(selector)].filter(Boolean) as Element[];
+    const frameIds = await resolveFrameIds(tab.id!, params);
+    const results = await runInFrames(tab.id!, frameIds, {
+      func: applyDomModification,
+      args: [
+        JOURNAL_KEY,
+        MAX_JOURNAL_ENTRIES,
+        params.selector,
+        params.action,
+        params.value ?? null,
+        params.attributeName ?? null,
+        params.all ?? false
+      ]
+    });
 
-          if (elements.length === 0) {
-            return { success: false, error: `No elements found matching: ${selector}` };
-          }
+    // The side panel lists the top frame's journal
+    if (results.some(({ frameId, result }) => frameId === 0 && result?.changeId !== undefined)) {
+      notifyDomChanges(tab.id!);
+    }
+    return frameResponse(request, results.map(({ frameId, result, error }) => {
+      if (!result?.success) {
+        return {
+          frameId,
+          error: result?.error || error || 'DOM modification failed',
+          data: result?.changeId !== undefined ? { changeId: result.changeId } : undefined
+        };
+      }
+      return {
+        frameId,
+        data: {
+          modifiedCount: result.modifiedCount,
+          message: result.message,
+          changeId: result.changeId
+        }
+      };
+    }));
+  } catch (error) {
+    console.error('[Background] modifyDom error:', error);
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to modify DOM'
+    };
+  }
+}
 
-          let modifiedCount = 0;
-
-          for (const element of elements) {
-            switch (action) {
-              case 'setHTML':
-                (element as HTMLElement).innerHTML = value || '';
-                modifiedCount++;
-                break;
-              case 'setOuterHTML':
-                element.outerHTML = value || '';
-                modifiedCount++;
-                break;
-              case 'setText':
-                (element as HTMLElement).textContent = value || '';
-                modifiedCount++;
-                break;
-              case 'setAttribute':
-                if (!attributeName) {
-                  return { success: false, error: 'attributeName required for setAttribute action' };
-                }
-                element.setAttribute(attributeName, value || '');
-                modifiedCount++;
-                break;
-              case 'removeAttribute':
-                if (!attributeName) {
-                  return { success: false, error: 'attributeName required for removeAttribute action' };
-                }
-                element.removeAttribute(attributeName);
-                modifiedCount++;
-                break;
-              case 'addClass':
-                if (!value) {
-                  return { success: false, error: 'value (class name) required for addClass action' };
-                }
-                element.classList.add(value);
-                modifiedCount++;
-                break;
-              case 'removeClass':
-                if (!value) {
-                  return { success: false, error: 'value (class name) required for removeClass action' };
-                }
-                element.classList.remove(value);
-                modifiedCount++;
-                break;
-              case 'remove':
-                element.remove();
-                modifiedCount++;
-                break;
-              case 'insertBefore':
-                if (!value) {
-                  return { success: false, error: 'value (HTML content) required for insertBefore action' };
-                }
-                element.insertAdjacentHTML('beforebegin', value);
-                modifiedCount++;
-                break;
-              case 'insertAfter':
-                if (!value) {
-                  return { success: false, error: 'value (HTML content) required for insertAfter action' };
-                }
-                element.insertAdjacentHTML('afterend', value);
-                modifiedCount++;
-                break;
-              default:
-                return { success: false, error: `Unknown action: ${action}` };
-            }
-          }
+/**
+ * Read the DOM change journal of a tab's frame (the top frame by default)
+ */
+async function listDomChanges(tabId: number, frameId = 0): Promise<DomChangeEntry[]> {
+  const results = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [frameId] },
+    func: listJournalEntries,
+    args: [JOURNAL_KEY]
+  });
+  return (results[0]?.result as DomChangeEntry[] | undefined) || [];
+}
 
-          return {
-            success: true,
-            modifiedCount,
-            message: `Modified ${modifiedCount} element(s) using ${action}`
-          };
-        } catch (e) {
-          return { success: false, error: e instanceof Error ? e.message : 'DOM modification failed' };
-        }
-      },
-      args: [params.selector, params.action, params.value ?? null, params.attributeName ?? null, params.all ?? false]
+/**
+ * Undo one journaled change (the latest when changeId is null) or all of them
+ */
+async function undoDomChanges(
+  tabId: number,
+  changeId: number | null,
+  all: boolean,
+  force: boolean,
+  frameId = 0
+): Promise<UndoResult> {
+  const results = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [frameId] },
+    func: undoJournalEntries,
+    args: [JOURNAL_KEY, changeId, all, force]
+  });
+  const result = results[0]?.result as UndoResult | undefined;
+  if (!result) {
+    return { ok: false, error: 'Undo produced no result (did the page navigate away?)' };
+  }
+  if (result.ok && frameId === 0) {
+    broadcastToExtension({ type: 'domChanges:updated', tabId, changes: result.changes });
+  }
+  return result;
+}
+
+/**
+ * Tell the side panel a tab's journal changed
+ */
+function notifyDomChanges(tabId: number): void {
+  listDomChanges(tabId)
+    .then(changes => broadcastToExtension({ type: 'domChanges:updated', tabId, changes }))
+    .catch(() => {
+      // Tab navigated or closed; its journal is gone anyway
     });
+}
 
-    const result = results[0]?.result;
-    if (!result?.success) {
-      return {
-        type: 'browser:response',
-        requestId: request.requestId,
-        success: false,
-        error: result?.error || 'DOM modification failed'
-      };
-    }
+/**
+ * Undo modifyDom changes in target tab (undoDomChange and revertAll actions)
+ */
+async function undoDomChangeInTab(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const params = request.params as { changeId?: number; force?: boolean } | undefined;
 
+  if (params?.changeId !== undefined && !Number.isInteger(params.changeId)) {
     return {
       type: 'browser:response',
       requestId: request.requestId,
-      success: true,
-      data: {
-        modifiedCount: result.modifiedCount,
-        message: result.message
-      }
+      success: false,
+      error: 'changeId must be an integer'
     };
-  } catch (error) {
-    console.error('[Background] modifyDom error:', error);
+  }
+
+  const frameId = await resolveSingleFrame(request, tab);
+  const result = await undoDomChanges(
+    tab.id!,
+    params?.changeId ?? null,
+    request.action === 'revertAll',
+    params?.force ?? false,
+    frameId
+  );
+  if (!result.ok) {
     return {
       type: 'browser:response',
       requestId: request.requestId,
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to modify DOM'
+      error: result.error
     };
   }
+
+  return {
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: true,
+    data: {
+      reverted: result.reverted,
+      message: `Reverted ${result.reverted.length} change(s)`
+    }
+  };
+}
+
+/**
+ * List modifyDom changes recorded for target tab's current document
+ */
+async function listDomChangesInTab(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const frameId = await resolveSingleFrame(request, tab);
+  const changes = await listDomChanges(tab.id!, frameId);
+  return {
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: true,
+    data: {
+      changes,
+      undoable: changes.filter(change => !change.reverted).length
+    }
+  };
+}
+
+/**
+ * List the frames in target tab, for frameId and frameUrl params
+ */
+async function listFramesInTab(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const frames = await listFrames(tab.id!);
+  return {
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: true,
+    data: { frames, url: tab.url, title: tab.title }
+  };
 }
 
 /**
  * Attach debugger to tab and start capturing console logs
  */
-async function attachDebuggerToTab(tabId: number): Promise<void> {
+async function attachDebuggerToTab(tabId: number, preserveLogs = false): Promise<void> {
   if (attachedTabs.has(tabId)) {
     return; // Already attached
   }
@@ -600,11 +1940,17 @@ async function attachDebuggerToTab(tabId: number): Promise<void> {
   try {
     await chrome.debugger.attach({ tabId }, '1.3');
     attachedTabs.add(tabId);
-    consoleLogs.set(tabId, []);
+    if (!preserveLogs || !consoleLogs.has(tabId)) {
+      consoleLogs.set(tabId, []);
+    }
+    resetNetworkLog(tabId);
+    clearAccessibilityRefs(tabId);
+    schedulePersistState();
 
-    // Enable Log and Runtime domains
+    // Enable Log, Runtime and Network domains
     await chrome.debugger.sendCommand({ tabId }, 'Log.enable');
     await chrome.debugger.sendCommand({ tabId }, 'Runtime.enable');
+    await chrome.debugger.sendCommand({ tabId }, 'Network.enable');
 
     console.log(`[Background] Debugger attached to tab ${tabId}`);
   } catch (error) {
@@ -613,6 +1959,20 @@ async function attachDebuggerToTab(tabId: number): Promise<void> {
   }
 }
 
+/**
+ * Attach the debugger if needed, reporting failures as request errors
+ */
+async function ensureDebuggerAttached(tabId: number): Promise<void> {
+  if (attachedTabs.has(tabId)) {
+    return;
+  }
+  try {
+    await attachDebuggerToTab(tabId);
+  } catch (error) {
+    throw new Error(`Failed to attach debugger: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Detach debugger from tab
  */
@@ -624,6 +1984,7 @@ async function detachDebuggerFromTab(tabId: number): Promise<void> {
   try {
     await chrome.debugger.detach({ tabId });
     attachedTabs.delete(tabId);
+    schedulePersistState();
     // Keep logs for a bit in case they're requested
     console.log(`[Background] Debugger detached from tab ${tabId}`);
   } catch (error) {
@@ -632,10 +1993,12 @@ async function detachDebuggerFromTab(tabId: number): Promise<void> {
 }
 
 /**
- * Get console logs for active tab
+ * Get console logs for target tab
  */
-async function getConsoleLogs(request: BrowserContextRequest): Promise<BrowserContextResponse> {
-  const tab = await getActiveTab();
+async function getConsoleLogs(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
   const tabId = tab.id!;
 
   const params = request.params as {
@@ -675,6 +2038,7 @@ async function getConsoleLogs(request: BrowserContextRequest): Promise<BrowserCo
   // Clear logs if requested
   if (params?.clear) {
     consoleLogs.set(tabId, []);
+    schedulePersistState();
   }
 
   return {
@@ -690,10 +2054,457 @@ async function getConsoleLogs(request: BrowserContextRequest): Promise<BrowserCo
   };
 }
 
-// Handle debugger events
-chrome.debugger.onEvent.addListener((source, method, params) => {
-  const tabId = source.tabId;
-  if (!tabId || !attachedTabs.has(tabId)) return;
+/**
+ * Get recorded network activity for target tab, optionally as HAR
+ */
+async function getNetworkLog(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const tabId = tab.id!;
+
+  const params = request.params as NetworkLogFilter & {
+    format?: 'entries' | 'har';
+    includeBodies?: boolean;
+    maxBodySize?: number;
+    clear?: boolean;
+    start?: boolean;
+  };
+
+  // Recording starts once the debugger is attached, so a first call can only
+  // report what happens after it; start: true begins recording ahead of time
+  const wasCapturing = attachedTabs.has(tabId);
+  await ensureDebuggerAttached(tabId);
+  const capture = {
+    capturing: true,
+    since: new Date(networkCaptureStart(tabId) ?? Date.now()).toISOString(),
+    ...(!wasCapturing && { note: 'Recording started with this call; reproduce the request, then read the log again' })
+  };
+
+  if (params?.start) {
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: true,
+      data: { tabId, url: tab.url, ...capture }
+    };
+  }
+
+  let entries = getNetworkEntries(tabId, params || {});
+  if (params?.includeBodies) {
+    entries = await withResponseBodies(tabId, entries, params.maxBodySize);
+  }
+
+  // Requests still in flight stay, so their responses aren't lost
+  if (params?.clear) {
+    clearFinishedNetworkEntries(tabId);
+  }
+
+  if (params?.format === 'har') {
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: true,
+      data: {
+        har: toHar(entries, { url: tab.url, title: tab.title }),
+        tabId,
+        url: tab.url,
+        ...capture
+      }
+    };
+  }
+
+  return {
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: true,
+    data: {
+      entries,
+      tabId,
+      url: tab.url,
+      ...capture
+    }
+  };
+}
+
+/**
+ * Get a pruned accessibility tree for target tab
+ */
+async function getAccessibilityTree(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const tabId = tab.id!;
+
+  const params = request.params as AccessibilitySnapshotOptions & {
+    format?: 'tree' | 'text';
+  };
+
+  await ensureDebuggerAttached(tabId);
+
+  const snapshot = await getAccessibilitySnapshot(tabId, {
+    maxDepth: params?.maxDepth,
+    viewportOnly: params?.viewportOnly,
+    maxNodes: params?.maxNodes
+  });
+
+  return {
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: true,
+    data: {
+      ...(params?.format === 'text'
+        ? { text: snapshot.root ? formatAccessibilityTree(snapshot.root) : '' }
+        : { tree: snapshot.root }),
+      nodeCount: snapshot.nodeCount,
+      truncated: snapshot.truncated,
+      url: tab.url,
+      title: tab.title
+    }
+  };
+}
+
+/**
+ * Dispatch trusted click, type, press, hover and scroll input to target tab
+ */
+async function performInputAction(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const tabId = tab.id!;
+
+  const params = (request.params || {}) as InputTarget & FrameTarget & {
+    text?: string;
+    key?: string;
+    clear?: boolean;
+    delay?: number;
+    button?: 'left' | 'right' | 'middle';
+    clickCount?: number;
+    modifiers?: string[];
+    deltaX?: number;
+    deltaY?: number;
+    force?: boolean;
+  };
+  const hasTarget = !!params.selector || (typeof params.x === 'number' && typeof params.y === 'number');
+  const fail = (error: string): BrowserContextResponse => ({
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: false,
+    error
+  });
+
+  // Input is dispatched at viewport coordinates, which only line up with
+  // elements in the top frame
+  if (targetsFrames(params) && params.frameId !== 0) {
+    return fail(`${request.action} only reaches elements in the top frame`);
+  }
+
+  await ensureDebuggerAttached(tabId);
+
+  let target: ResolvedTarget | null = null;
+  switch (request.action) {
+    case 'click':
+      target = await resolveInputTarget(tabId, params, { force: params.force });
+      await click(tabId, target, {
+        button: params.button,
+        clickCount: params.clickCount,
+        modifiers: params.modifiers
+      });
+      break;
+
+    case 'hover':
+      target = await resolveInputTarget(tabId, params, { force: params.force });
+      await hover(tabId, target);
+      break;
+
+    case 'type':
+      if (typeof params.text !== 'string') {
+        return fail('text required for type action');
+      }
+      // Focus the target first; without one, type into whatever has focus
+      if (hasTarget) {
+        target = await resolveInputTarget(tabId, params, { force: params.force });
+        await click(tabId, target);
+      }
+      if (params.clear) {
+        await clearFocusedField(tabId);
+      }
+      await typeText(tabId, params.text, params.delay);
+      if (params.selector) {
+        // Re-read so the report shows the value after typing
+        target = await resolveInputTarget(tabId, params, { force: true });
+      }
+      break;
+
+    case 'press':
+      if (!params.key) {
+        return fail('key required for press action');
+      }
+      if (hasTarget) {
+        target = await resolveInputTarget(tabId, params, { force: params.force });
+        await click(tabId, target);
+      }
+      await pressKey(tabId, params.key);
+      break;
+
+    case 'scroll': {
+      const deltaX = params.deltaX ?? 0;
+      const deltaY = params.deltaY ?? 0;
+      if (hasTarget) {
+        // Resolving a selector already scrolls it into view
+        target = await resolveInputTarget(tabId, params, { force: true });
+      }
+      if (deltaX !== 0 || deltaY !== 0) {
+        const point = target ?? await viewportCenter(tabId);
+        await scrollBy(tabId, point, deltaX, deltaY);
+      } else if (!params.selector) {
+        return fail('selector, ref or deltaX/deltaY required for scroll action');
+      }
+      break;
+    }
+  }
+
+  return {
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: true,
+    data: {
+      action: request.action,
+      element: target?.element ?? null,
+      point: target ? { x: target.x, y: target.y } : null
+    }
+  };
+}
+
+/**
+ * Middle of the visible viewport, in CSS pixels
+ */
+async function viewportCenter(tabId: number): Promise<{ x: number; y: number }> {
+  const metrics = await chrome.debugger.sendCommand({ tabId }, 'Page.getLayoutMetrics') as {
+    cssLayoutViewport: { clientWidth: number; clientHeight: number };
+  };
+  return {
+    x: metrics.cssLayoutViewport.clientWidth / 2,
+    y: metrics.cssLayoutViewport.clientHeight / 2
+  };
+}
+
+/**
+ * Navigate, move through history, reload, open or close tabs,
+ * optionally waiting for the page to load
+ */
+async function performNavigationAction(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const tabId = tab.id!;
+
+  const params = (request.params || {}) as {
+    url?: string;
+    waitUntil?: WaitUntil;
+    timeout?: number;
+    active?: boolean;
+    bypassCache?: boolean;
+  };
+  const fail = (error: string): BrowserContextResponse => ({
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: false,
+    error
+  });
+
+  if (request.action === 'closeTab') {
+    await chrome.tabs.remove(tabId);
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: true,
+      data: { closed: true, tabId }
+    };
+  }
+
+  if (request.action === 'navigate' || request.action === 'openTab') {
+    if (!params.url) {
+      return fail(`url required for ${request.action} action`);
+    }
+    if (/^javascript:/i.test(params.url)) {
+      return fail('javascript: URLs are not allowed; use executeScript instead');
+    }
+  }
+
+  const url = params.url;
+  let trigger: () => Promise<number>;
+  switch (request.action) {
+    case 'navigate':
+      trigger = async () => {
+        await chrome.tabs.update(tabId, { url });
+        return tabId;
+      };
+      break;
+    case 'back':
+      trigger = async () => {
+        await chrome.tabs.goBack(tabId);
+        return tabId;
+      };
+      break;
+    case 'forward':
+      trigger = async () => {
+        await chrome.tabs.goForward(tabId);
+        return tabId;
+      };
+      break;
+    case 'reload':
+      trigger = async () => {
+        await chrome.tabs.reload(tabId, { bypassCache: params.bypassCache ?? false });
+        return tabId;
+      };
+      break;
+    case 'openTab':
+      trigger = async () => {
+        const created = await chrome.tabs.create({
+          url,
+          active: params.active ?? true,
+          windowId: tab.windowId
+        });
+        return created.id!;
+      };
+      break;
+    default:
+      return fail(`Unknown navigation action: ${request.action}`);
+  }
+
+  // The request's URL was checked up front; a redirect can still land
+  // elsewhere, so the wait stops as soon as a denylisted page commits
+  const policy = await loadSitePolicy();
+  const result = await navigateAndWait(trigger, {
+    waitUntil: params.waitUntil,
+    timeout: params.timeout,
+    stopAt: committedUrl => deniedDomainFor(policy, committedUrl) !== null
+  });
+  const finalTab = await chrome.tabs.get(result.tabId);
+
+  const landedAt = result.stoppedAt ?? result.url;
+  const denied = landedAt ? deniedDomainFor(policy, landedAt) : null;
+  if (denied) {
+    return { ...fail(`${request.action} blocked: the page redirected to ${denied}, which is on the denylist`), tab: describeTab(finalTab) };
+  }
+
+  return {
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: true,
+    data: result,
+    tab: describeTab(finalTab)
+  };
+}
+
+const WAIT_TIMEOUT = 10000;
+
+/**
+ * Wait for an element, text, network idle or a JS predicate in target tab
+ */
+async function waitForCondition(
+  request: BrowserContextRequest,
+  tab: chrome.tabs.Tab
+): Promise<BrowserContextResponse> {
+  const tabId = tab.id!;
+
+  const params = (request.params || {}) as {
+    selector?: string;
+    state?: SelectorState;
+    text?: string;
+    predicate?: string;
+    networkIdle?: boolean;
+    idleTime?: number;
+    maxInflight?: number;
+    timeout?: number;
+    polling?: 'mutation' | number;
+  };
+  const timeout = params.timeout ?? WAIT_TIMEOUT;
+
+  if (params.networkIdle) {
+    const startedAt = Date.now();
+    await waitForNetworkIdle(tabId, {
+      idleTime: params.idleTime,
+      maxInflight: params.maxInflight,
+      timeout
+    });
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: true,
+      data: {
+        matched: { networkIdle: true },
+        elapsedMs: Date.now() - startedAt
+      }
+    };
+  }
+
+  let spec: PageWaitSpec;
+  if (params.predicate) {
+    // Predicates read page state, which changes without DOM mutations
+    spec = { kind: 'predicate', predicate: params.predicate, timeout, polling: params.polling ?? 100 };
+  } else if (params.text) {
+    spec = { kind: 'text', text: params.text, selector: params.selector, timeout, polling: params.polling ?? 'mutation' };
+  } else if (params.selector) {
+    spec = { kind: 'selector', selector: params.selector, state: params.state, timeout, polling: params.polling ?? 'mutation' };
+  } else {
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: false,
+      error: 'waitFor requires selector, text, predicate or networkIdle'
+    };
+  }
+
+  const frameId = await resolveSingleFrame(request, tab);
+  if (spec.kind !== 'predicate') {
+    await injectDomHelpers(tabId, [frameId]);
+  }
+  const results = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [frameId] },
+    world: spec.kind === 'predicate' ? 'MAIN' : 'ISOLATED',
+    func: waitInPage,
+    args: [spec, `__geminiWaitPredicate_${request.requestId}`]
+  });
+
+  const result = results[0]?.result;
+  if (!result) {
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: false,
+      error: 'Wait produced no result (did the page navigate away?)'
+    };
+  }
+
+  if (!result.ok) {
+    return {
+      type: 'browser:response',
+      requestId: request.requestId,
+      success: false,
+      error: result.error,
+      data: { timedOut: result.timedOut ?? false, elapsedMs: result.elapsedMs }
+    };
+  }
+
+  return {
+    type: 'browser:response',
+    requestId: request.requestId,
+    success: true,
+    data: { matched: result.matched, elapsedMs: result.elapsedMs }
+  };
+}
+
+// Handle debugger events
+chrome.debugger.onEvent.addListener((source, method, params) => {
+  const tabId = source.tabId;
+  if (!tabId || !attachedTabs.has(tabId)) return;
+
+  if (method.startsWith('Network.')) {
+    recordNetworkEvent(tabId, method, params);
+    return;
+  }
 
   let entry: ConsoleLogEntry | null = null;
 
@@ -768,6 +2579,7 @@ chrome.debugger.onEvent.addListener((source, method, params) => {
       logs.splice(0, logs.length - MAX_LOGS_PER_TAB);
     }
     consoleLogs.set(tabId, logs);
+    schedulePersistState();
   }
 });
 
@@ -775,6 +2587,7 @@ chrome.debugger.onEvent.addListener((source, method, params) => {
 chrome.debugger.onDetach.addListener((source, reason) => {
   if (source.tabId) {
     attachedTabs.delete(source.tabId);
+    schedulePersistState();
     console.log(`[Background] Debugger detached from tab ${source.tabId}: ${reason}`);
   }
 });
@@ -783,27 +2596,272 @@ chrome.debugger.onDetach.addListener((source, reason) => {
 chrome.tabs.onRemoved.addListener((tabId) => {
   attachedTabs.delete(tabId);
   consoleLogs.delete(tabId);
+  clearNetworkLog(tabId);
+  clearAccessibilityRefs(tabId);
+  clearElementRefs(tabId);
+  schedulePersistState();
 });
 
+/**
+ * Mirror tab and debugger state into session storage (debounced)
+ */
+function schedulePersistState(): void {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    const state: PersistedWorkerState = {
+      startedAt: workerStartedAt,
+      attachedTabs: Array.from(attachedTabs),
+      consoleLogs: Object.fromEntries(consoleLogs),
+      terminalSessions: listTerminalSessions(),
+      terminalScrollback: saveTerminalScrollback(),
+      elementRefCounters: saveElementRefCounters(),
+      reconnectAttempts,
+      connectionRefusal: connectionRefusal ? { backendUrl, reason: connectionRefusal, tokenRejected } : undefined
+    };
+    chrome.storage.session.set({ [WORKER_STATE_KEY]: state }).catch((error) => {
+      console.error('[Background] Failed to persist worker state:', error);
+    });
+  }, PERSIST_DELAY);
+}
+
+/**
+ * Rebuild state left behind by a previous instance of this worker.
+ * Session storage survives worker restarts but not extension reloads, so
+ * finding state here means Chrome suspended or killed the last worker.
+ */
+async function restoreWorkerState(): Promise<void> {
+  const stored = await chrome.storage.session.get(WORKER_STATE_KEY);
+  const previous = stored[WORKER_STATE_KEY] as PersistedWorkerState | undefined;
+
+  if (previous) {
+    console.log('[Background] Restoring state from previous worker started at', new Date(previous.startedAt).toISOString());
+    const lost = [
+      'Backend connection (reconnecting automatically)',
+      'Browser requests that were in flight'
+    ];
+    const restored: string[] = [];
+
+    for (const [tabId, logs] of Object.entries(previous.consoleLogs)) {
+      consoleLogs.set(Number(tabId), logs);
+    }
+    // Before the slow debugger work, so output for these sessions isn't dropped
+    restoreTerminalSessions(previous.terminalSessions || [], previous.terminalScrollback);
+    restoreElementRefCounters(previous.elementRefCounters);
+
+    // The old worker's debugger sessions may or may not have survived;
+    // detach whatever is left and attach fresh so events reach this worker
+    const reattached: number[] = [];
+    const failed: number[] = [];
+    for (const tabId of previous.attachedTabs) {
+      try {
+        await chrome.tabs.get(tabId);
+        await chrome.debugger.detach({ tabId }).catch(() => {});
+        await attachDebuggerToTab(tabId, true);
+        reattached.push(tabId);
+      } catch {
+        failed.push(tabId);
+        consoleLogs.delete(tabId);
+      }
+    }
+
+    if (consoleLogs.size > 0) {
+      restored.push(`Console logs for ${consoleLogs.size} tab(s)`);
+    }
+    if (previous.terminalSessions?.length) {
+      restored.push(`${previous.terminalSessions.length} terminal session(s) with their scrollback`);
+    }
+    if (reattached.length > 0) {
+      restored.push(`Debugger capture on tab(s) ${reattached.join(', ')}`);
+    }
+    if (previous.attachedTabs.length > 0) {
+      lost.push('Network activity recorded before the restart');
+    }
+    if (failed.length > 0) {
+      lost.push(`Debugger capture on tab(s) ${failed.join(', ')} (tab closed or debugger unavailable)`);
+    }
+
+    restartReport = {
+      type: 'worker:restarted',
+      restartedAt: workerStartedAt,
+      previousStartedAt: previous.startedAt,
+      lost,
+      restored
+    };
+    deliverRestartReport();
+  }
+
+  schedulePersistState();
+}
+
+/**
+ * Pick up the reconnect attempts a previous worker used and any refusal it
+ * made, so neither the limit nor the refusal is lifted by the restarts the
+ * watchdog alarm causes
+ */
+async function restoreConnectionState(): Promise<void> {
+  const stored = await chrome.storage.session.get(WORKER_STATE_KEY);
+  const previous = stored[WORKER_STATE_KEY] as PersistedWorkerState | undefined;
+  reconnectAttempts = previous?.reconnectAttempts ?? 0;
+  // A refusal only applies to the backend it was made for
+  const refusal = previous?.connectionRefusal;
+  if (refusal && refusal.backendUrl === backendUrl) {
+    connectionRefusal = refusal.reason;
+    tokenRejected = refusal.tokenRejected;
+  }
+}
+
+/**
+ * Tell the side panel about the last restart; kept until a panel receives it
+ */
+function deliverRestartReport(): void {
+  const report = restartReport;
+  if (!report) return;
+  chrome.runtime.sendMessage(report)
+    .then(() => {
+      if (restartReport === report) {
+        restartReport = null;
+      }
+    })
+    .catch(() => {
+      // No side panel open yet; retried on the next ping
+    });
+}
+
+/**
+ * Serve the side panel's DOM changes view
+ */
+async function handleDomChangesRequest(message: DomChangesRequestMessage): Promise<DomChangesResponse> {
+  if (message.type === 'domChanges:list') {
+    return { success: true, changes: await listDomChanges(message.tabId) };
+  }
+  const result = await undoDomChanges(
+    message.tabId,
+    message.changeId ?? null,
+    message.type === 'domChanges:revertAll',
+    message.force ?? false
+  );
+  return result.ok
+    ? { success: true, changes: result.changes }
+    : { success: false, error: result.error };
+}
+
 // Listen for messages from side panel
 chrome.runtime.onMessage.addListener((message: ExtensionMessage | WebSocketMessage, _sender, sendResponse) => {
   if (message.type === 'ping') {
     // Respond with current connection status
-    const status = socket?.readyState === WebSocket.OPEN ? 'connected' : 'disconnected';
-    sendResponse({ type: 'pong', connectionStatus: status });
+    const statusMessage = currentStatusMessage();
+    sendResponse({ type: 'pong', connectionStatus: statusMessage.status });
     // Also broadcast the status so the sidepanel gets it
-    setTimeout(() => broadcastToExtension({ type: 'connection:status', status }), 100);
+    setTimeout(() => {
+      broadcastToExtension(statusMessage);
+      deliverRestartReport();
+      redeliverApprovals();
+    }, 100);
     return true;
   }
 
-  if (message.type === 'terminal:input' || message.type === 'terminal:resize') {
-    sendToBackend(message as WebSocketMessage);
+  if (message.type === 'terminal:input') {
+    sendToBackend(message);
+    sendResponse({ success: true });
+    return true;
+  }
+
+  if (message.type === 'terminal:attachment') {
+    // Reply once the chunk is on its way so the side panel paces the next one
+    if (!sendToBackend(message)) {
+      sendResponse({ success: false, error: 'Not connected to the backend' });
+      return true;
+    }
+    waitForSocketDrain().then(() => sendResponse({ success: true }));
+    return true;
+  }
+
+  if (message.type === 'terminal:resize') {
+    resizeTerminalSession(message.sessionId, message.cols, message.rows);
+    schedulePersistState();
+    sendToBackend(message);
+    sendResponse({ success: true });
+    return true;
+  }
+
+  if (message.type === 'terminal:list') {
+    sendResponse(listTerminalSessions());
+    return true;
+  }
+
+  if (message.type === 'terminal:replay') {
+    sendResponse(getTerminalScrollback(message.sessionId));
+    return true;
+  }
+
+  if (message.type === 'terminal:open' || message.type === 'terminal:close' || message.type === 'terminal:rename') {
+    if (message.type === 'terminal:open') {
+      openTerminalSession(message);
+      sendToBackend(message);
+    } else if (message.type === 'terminal:close') {
+      closeTerminalSession(message.sessionId);
+      sendToBackend(message);
+    } else {
+      renameTerminalSession(message.sessionId, message.name);
+    }
+    schedulePersistState();
+    broadcastToExtension({ type: 'terminal:sessions', sessions: listTerminalSessions() });
+    sendResponse({ success: true });
+    return true;
+  }
+
+  if (message.type === 'domChanges:list' || message.type === 'domChanges:undo' || message.type === 'domChanges:revertAll') {
+    handleDomChangesRequest(message)
+      .then(sendResponse)
+      .catch((error) => {
+        sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+      });
+    return true;
+  }
+
+  if (message.type === 'audit:list' || message.type === 'audit:clear') {
+    const result = message.type === 'audit:list'
+      ? getAuditLog().then(entries => ({ success: true, entries }))
+      : clearAuditLog().then(() => ({ success: true, entries: [] }));
+    result
+      .then(sendResponse)
+      .catch((error) => {
+        sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+      });
+    return true;
+  }
+
+  if (message.type === 'picker:start' || message.type === 'picker:stop') {
+    if (message.type === 'picker:start') {
+      startElementPicker();
+    } else {
+      controlElementPicker('content:stopPicker').catch(() => {});
+    }
+    sendResponse({ success: true });
+    return true;
+  }
+
+  if (message.type === 'browser:event') {
+    sendResponse({ success: sendToBackend(message) });
+    return true;
+  }
+
+  if (message.type === 'context:take') {
+    sendResponse(takePendingContexts(message.windowId));
+    return true;
+  }
+
+  if (message.type === 'approval:response') {
+    resolveApproval(message);
     sendResponse({ success: true });
     return true;
   }
 
   if (message.type === 'connection:status' && (message as any).action === 'reconnect') {
     reconnectAttempts = 0;
+    connectionRefusal = null;
+    schedulePersistState();
     connectToBackend();
     sendResponse({ success: true });
     return true;
@@ -819,14 +2877,83 @@ chrome.action.onClicked.addListener((tab) => {
   }
 });
 
+// "Send to Gemini" context menu
+chrome.runtime.onInstalled.addListener(registerContextMenus);
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  const delivery = contextMenuDelivery(info.menuItemId);
+  if (!delivery || !tab?.id || tab.id < 0) return;
+
+  // Opening the side panel needs the click's user gesture, so it can't wait for the capture
+  chrome.sidePanel.open({ tabId: tab.id }).catch((error) => {
+    console.error('[Background] Failed to open side panel:', error);
+  });
+
+  capturePageContext(info, tab, delivery)
+    .then((context) => {
+      queuePageContext(delivery, context, tab.windowId);
+      broadcastToExtension({ type: 'context:available' });
+    })
+    .catch((error) => {
+      console.error('[Background] Failed to capture page context:', error);
+    });
+});
+
+// Keyboard shortcut for the element picker
+chrome.commands.onCommand.addListener((command, tab) => {
+  if (command !== 'pick-element') return;
+  // The result shows up in the side panel, so make sure it's open
+  if (tab?.id) {
+    chrome.sidePanel.open({ tabId: tab.id }).catch((error) => {
+      console.error('[Background] Failed to open side panel:', error);
+    });
+  }
+  startElementPicker();
+});
+
+// Rebuild state if Chrome restarted this worker
+restoreWorkerState().catch((error) => {
+  console.error('[Background] Failed to restore worker state:', error);
+});
+
 // Initialize connection on service worker start
-connectToBackend();
+loadConnectionSettings()
+  .then((settings) => {
+    activeProfile = getActiveProfile(settings);
+    backendUrl = profileUrl(activeProfile);
+  })
+  .catch((error) => {
+    console.error('[Background] Failed to load connection settings:', error);
+  })
+  .then(restoreConnectionState)
+  .catch((error) => {
+    console.error('[Background] Failed to restore connection state:', error);
+  })
+  .finally(() => {
+    if (connectionRefusal) {
+      console.log('[Background] Backend was refused; waiting for the user to reconnect:', connectionRefusal);
+      return;
+    }
+    if (reconnectsExhausted()) {
+      console.log('[Background] Reconnect attempts used up; waiting for the user to reconnect');
+      return;
+    }
+    connectToBackend();
+  });
+
+// Reconnect live when the active profile is edited or switched
+onConnectionSettingsChanged((settings) => {
+  applyConnectionProfile(getActiveProfile(settings));
+});
 
-// Keep service worker alive with periodic connection checks
-setInterval(() => {
-  if (!socket || socket.readyState !== WebSocket.OPEN) {
+// Alarms wake the worker even after Chrome has suspended it,
+// so the connection comes back without waiting for the side panel
+chrome.alarms.create(WATCHDOG_ALARM, { periodInMinutes: 0.5 });
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name !== WATCHDOG_ALARM) return;
+  if (!connectionRefusal && !reconnectsExhausted() && (!socket || socket.readyState !== WebSocket.OPEN)) {
     connectToBackend();
   }
-}, 30000);
+});
 
 console.log('[Background] Service worker initialized');
@@ -0,0 +1,353 @@
+/**
+ * Input Automation
+ * Trusted mouse and keyboard events dispatched through the debugger's
+ * Input domain, targeted at a selector or viewport coordinates
+ */
+
+import { injectDomHelpers } from './frames';
+
+export interface InputTarget {
+  selector?: string;
+  x?: number;
+  y?: number;
+}
+
+export interface TargetElementInfo {
+  tag: string;
+  id?: string;
+  classes?: string[];
+  role?: string;
+  name?: string;
+  text?: string;
+  value?: string;
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+export interface ResolvedTarget {
+  /** Viewport coordinates (CSS pixels) the event will be dispatched at */
+  x: number;
+  y: number;
+  element: TargetElementInfo | null;
+}
+
+type LocateResult =
+  | { ok: true; x: number; y: number; element: TargetElementInfo | null }
+  | { ok: false; error: string };
+
+// CDP modifier bitmask
+const MODIFIERS: Record<string, number> = {
+  alt: 1,
+  control: 2,
+  ctrl: 2,
+  meta: 4,
+  cmd: 4,
+  command: 4,
+  shift: 8
+};
+
+interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  text?: string;
+}
+
+const NAMED_KEYS: Record<string, KeyDefinition> = {
+  enter: { key: 'Enter', code: 'Enter', keyCode: 13, text: '\r' },
+  tab: { key: 'Tab', code: 'Tab', keyCode: 9 },
+  escape: { key: 'Escape', code: 'Escape', keyCode: 27 },
+  esc: { key: 'Escape', code: 'Escape', keyCode: 27 },
+  backspace: { key: 'Backspace', code: 'Backspace', keyCode: 8 },
+  delete: { key: 'Delete', code: 'Delete', keyCode: 46 },
+  space: { key: ' ', code: 'Space', keyCode: 32, text: ' ' },
+  arrowup: { key: 'ArrowUp', code: 'ArrowUp', keyCode: 38 },
+  arrowdown: { key: 'ArrowDown', code: 'ArrowDown', keyCode: 40 },
+  arrowleft: { key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37 },
+  arrowright: { key: 'ArrowRight', code: 'ArrowRight', keyCode: 39 },
+  home: { key: 'Home', code: 'Home', keyCode: 36 },
+  end: { key: 'End', code: 'End', keyCode: 35 },
+  pageup: { key: 'PageUp', code: 'PageUp', keyCode: 33 },
+  pagedown: { key: 'PageDown', code: 'PageDown', keyCode: 34 },
+  insert: { key: 'Insert', code: 'Insert', keyCode: 45 }
+};
+
+/**
+ * Find the element to act on, scroll it into view and check it can receive
+ * input. With coordinates only, reports whatever element is at that point.
+ */
+export async function resolveInputTarget(
+  tabId: number,
+  target: InputTarget,
+  options: { force?: boolean } = {}
+): Promise<ResolvedTarget> {
+  if (!target.selector && (typeof target.x !== 'number' || typeof target.y !== 'number')) {
+    throw new Error('Provide a selector, ref or x/y coordinates');
+  }
+
+  await injectDomHelpers(tabId);
+  const results = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: locateElement,
+    args: [target.selector ?? null, target.x ?? null, target.y ?? null, options.force ?? false]
+  });
+
+  const result = results[0]?.result as LocateResult | undefined;
+  if (!result) {
+    throw new Error('Failed to locate target element');
+  }
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return { x: result.x, y: result.y, element: result.element };
+}
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ */
+function locateElement(
+  selector: string | null,
+  x: number | null,
+  y: number | null,
+  force: boolean
+): LocateResult {
+  const describe = (el: Element): TargetElementInfo => {
+    const rect = el.getBoundingClientRect();
+    const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+    const name = el.getAttribute('aria-label') || el.getAttribute('placeholder') ||
+      el.getAttribute('title') || el.getAttribute('alt') || undefined;
+    const value = 'value' in el && typeof (el as HTMLInputElement).value === 'string'
+      ? (el as HTMLInputElement).value
+      : undefined;
+    return {
+      tag: el.tagName.toLowerCase(),
+      id: el.id || undefined,
+      classes: el.classList.length ? Array.from(el.classList) : undefined,
+      role: el.getAttribute('role') || undefined,
+      name,
+      text: text ? text.slice(0, 80) : undefined,
+      value,
+      rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height }
+    };
+  };
+
+  const label = (el: Element) =>
+    el.tagName.toLowerCase() + (el.id ? `#${el.id}` : '') +
+    (el.classList.length ? `.${Array.from(el.classList).slice(0, 2).join('.')}` : '');
+
+  if (!selector) {
+    const el = document.elementFromPoint(x!, y!);
+    return { ok: true, x: x!, y: y!, element: el ? describe(el) : null };
+  }
+
+  // Loaded by injectDomHelpers
+  const { queryDeep } = globalThis.__geminiDom!;
+
+  let el: Element | null;
+  try {
+    el = queryDeep(selector)[0] ?? null;
+  } catch {
+    return { ok: false, error: `Invalid selector: ${selector}` };
+  }
+  if (!el) {
+    return { ok: false, error: `Element not found: ${selector}` };
+  }
+
+  el.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+
+  const style = window.getComputedStyle(el);
+  const rect = el.getBoundingClientRect();
+  if (!force) {
+    if (style.display === 'none' || style.visibility === 'hidden' || style.visibility === 'collapse') {
+      return { ok: false, error: `Element is not visible (${style.display === 'none' ? 'display: none' : `visibility: ${style.visibility}`}): ${selector}` };
+    }
+    if (rect.width === 0 || rect.height === 0) {
+      return { ok: false, error: `Element has no size: ${selector}` };
+    }
+    if (Number(style.opacity) === 0) {
+      return { ok: false, error: `Element is transparent (opacity: 0): ${selector}` };
+    }
+  }
+
+  // Clamp to the viewport in case the element is larger than it
+  const cx = Math.min(Math.max(rect.left + rect.width / 2, 0), window.innerWidth - 1);
+  const cy = Math.min(Math.max(rect.top + rect.height / 2, 0), window.innerHeight - 1);
+
+  if (!force) {
+    // Ask the element's own tree; the document only sees its shadow host
+    const hit = (el.getRootNode() as Document | ShadowRoot).elementFromPoint(cx, cy);
+    if (hit && hit !== el && !el.contains(hit) && !hit.contains(el)) {
+      return { ok: false, error: `Element ${selector} is covered by ${label(hit)}` };
+    }
+  }
+
+  return { ok: true, x: cx, y: cy, element: describe(el) };
+}
+
+/**
+ * Move the mouse to a point
+ */
+export async function hover(tabId: number, point: ResolvedTarget): Promise<void> {
+  await chrome.debugger.sendCommand({ tabId }, 'Input.dispatchMouseEvent', {
+    type: 'mouseMoved',
+    x: point.x,
+    y: point.y
+  });
+}
+
+/**
+ * Press and release a mouse button at a point
+ */
+export async function click(
+  tabId: number,
+  point: ResolvedTarget,
+  options: { button?: 'left' | 'right' | 'middle'; clickCount?: number; modifiers?: string[] } = {}
+): Promise<void> {
+  const button = options.button || 'left';
+  const clickCount = options.clickCount || 1;
+  const modifiers = modifierMask(options.modifiers || []);
+
+  await hover(tabId, point);
+  // Multi-clicks are delivered as successive press/release pairs with rising clickCount
+  for (let count = 1; count <= clickCount; count++) {
+    const event = { x: point.x, y: point.y, button, clickCount: count, modifiers };
+    await chrome.debugger.sendCommand({ tabId }, 'Input.dispatchMouseEvent', { ...event, type: 'mousePressed' });
+    await chrome.debugger.sendCommand({ tabId }, 'Input.dispatchMouseEvent', { ...event, type: 'mouseReleased' });
+  }
+}
+
+/**
+ * Scroll with the mouse wheel at a point
+ */
+export async function scrollBy(
+  tabId: number,
+  point: { x: number; y: number },
+  deltaX: number,
+  deltaY: number
+): Promise<void> {
+  await chrome.debugger.sendCommand({ tabId }, 'Input.dispatchMouseEvent', {
+    type: 'mouseWheel',
+    x: point.x,
+    y: point.y,
+    deltaX,
+    deltaY
+  });
+}
+
+/**
+ * Type text into the focused element one key at a time
+ */
+export async function typeText(tabId: number, text: string, delay = 0): Promise<void> {
+  for (const char of text) {
+    if (char === '\n' || char === '\r') {
+      await pressKey(tabId, 'Enter');
+    } else {
+      const definition = keyForCharacter(char);
+      if (definition) {
+        await dispatchKey(tabId, definition, 0);
+      } else {
+        // No physical key for this character (emoji, CJK); insert it directly
+        await chrome.debugger.sendCommand({ tabId }, 'Input.insertText', { text: char });
+      }
+    }
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Select everything in the focused field and delete it
+ */
+export async function clearFocusedField(tabId: number): Promise<void> {
+  // The selectAll editing command works regardless of platform shortcuts
+  await chrome.debugger.sendCommand({ tabId }, 'Input.dispatchKeyEvent', {
+    type: 'rawKeyDown',
+    key: 'a',
+    code: 'KeyA',
+    windowsVirtualKeyCode: 65,
+    commands: ['selectAll']
+  });
+  await chrome.debugger.sendCommand({ tabId }, 'Input.dispatchKeyEvent', {
+    type: 'keyUp',
+    key: 'a',
+    code: 'KeyA',
+    windowsVirtualKeyCode: 65
+  });
+  await pressKey(tabId, 'Backspace');
+}
+
+/**
+ * Press a key or combination such as "Enter", "Shift+Tab" or "Control+A"
+ */
+export async function pressKey(tabId: number, combo: string): Promise<void> {
+  const parts = combo.split('+').map(part => part.trim()).filter(Boolean);
+  const keyName = parts.pop();
+  if (!keyName) {
+    throw new Error(`Invalid key: ${combo}`);
+  }
+
+  const modifierNames = parts.map(part => part.toLowerCase());
+  for (const name of modifierNames) {
+    if (!(name in MODIFIERS)) {
+      throw new Error(`Unknown modifier "${name}" in ${combo}`);
+    }
+  }
+
+  const definition = NAMED_KEYS[keyName.toLowerCase()] ||
+    (keyName.length === 1 ? keyForCharacter(keyName) : undefined) ||
+    functionKey(keyName);
+  if (!definition) {
+    throw new Error(`Unknown key: ${keyName}`);
+  }
+
+  await dispatchKey(tabId, definition, modifierMask(modifierNames));
+}
+
+async function dispatchKey(tabId: number, definition: KeyDefinition, modifiers: number): Promise<void> {
+  // Shortcuts with Ctrl/Alt/Meta must not insert their character
+  const text = modifiers & (1 | 2 | 4) ? undefined : definition.text;
+  const base = {
+    key: definition.key,
+    code: definition.code,
+    windowsVirtualKeyCode: definition.keyCode,
+    nativeVirtualKeyCode: definition.keyCode,
+    modifiers
+  };
+
+  await chrome.debugger.sendCommand({ tabId }, 'Input.dispatchKeyEvent', {
+    ...base,
+    type: text ? 'keyDown' : 'rawKeyDown',
+    text,
+    unmodifiedText: text
+  });
+  await chrome.debugger.sendCommand({ tabId }, 'Input.dispatchKeyEvent', { ...base, type: 'keyUp' });
+}
+
+function keyForCharacter(char: string): KeyDefinition | undefined {
+  if (/^[a-z]$/i.test(char)) {
+    return { key: char, code: `Key${char.toUpperCase()}`, keyCode: char.toUpperCase().charCodeAt(0), text: char };
+  }
+  if (/^[0-9]$/.test(char)) {
+    return { key: char, code: `Digit${char}`, keyCode: char.charCodeAt(0), text: char };
+  }
+  if (char === ' ') {
+    return NAMED_KEYS.space;
+  }
+  // Printable ASCII punctuation; code/keyCode vary by layout, text is what matters
+  if (char.length === 1 && char >= '!' && char <= '~') {
+    return { key: char, code: '', keyCode: 0, text: char };
+  }
+  return undefined;
+}
+
+function functionKey(name: string): KeyDefinition | undefined {
+  const match = /^F([1-9]|1[0-2])$/i.exec(name);
+  if (!match) return undefined;
+  const n = Number(match[1]);
+  return { key: `F${n}`, code: `F${n}`, keyCode: 111 + n };
+}
+
+function modifierMask(names: string[]): number {
+  return names.reduce((mask, name) => mask | (MODIFIERS[name.toLowerCase()] || 0), 0);
+}
@@ -0,0 +1,300 @@
+/**
+ * Navigation Tracking
+ * Waits for page lifecycle milestones and network idle using the
+ * webNavigation and webRequest APIs, and records main-frame redirects.
+ * Listeners are only registered while a navigation or wait is in progress.
+ */
+
+export type WaitUntil = 'none' | 'DOMContentLoaded' | 'load' | 'networkidle';
+
+export interface Redirect {
+  from: string;
+  to: string;
+  status: number;
+}
+
+export interface NavigationResult {
+  tabId: number;
+  url?: string;
+  title?: string;
+  status?: number;
+  redirects: Redirect[];
+  waitUntil: WaitUntil;
+  durationMs: number;
+  /** The committed URL that ended the wait early, when stopAt matched one */
+  stoppedAt?: string;
+}
+
+export interface NetworkIdleOptions {
+  /** How long the tab must stay quiet, in milliseconds */
+  idleTime?: number;
+  /** Requests allowed to stay open (long polling, streaming) */
+  maxInflight?: number;
+  timeout?: number;
+}
+
+const DEFAULT_NAVIGATION_TIMEOUT = 30000;
+const DEFAULT_IDLE_TIME = 500;
+
+/** In-flight requests seen by webRequest listeners that live only while a wait needs them */
+interface RequestTracker {
+  /** Request ids started and not yet finished, per tab */
+  inflight: Map<number, Set<string>>;
+  /** Called after every request starts or finishes */
+  onChange: (() => void) | null;
+  stop: () => void;
+}
+
+/**
+ * Count requests in flight in one tab, or in every tab while the tab a
+ * navigation lands in isn't known yet, until stop is called. Requests that
+ * started before tracking did aren't seen.
+ */
+function trackRequests(tabId?: number): RequestTracker {
+  const filter: chrome.webRequest.RequestFilter = { urls: ['<all_urls>'], ...(tabId !== undefined && { tabId }) };
+
+  const onStart = (details: chrome.webRequest.WebRequestBodyDetails) => {
+    if (details.tabId < 0) return;
+    if (details.type === 'main_frame') {
+      // A new document replaces everything the old one had in flight
+      tracker.inflight.set(details.tabId, new Set());
+    }
+    let requests = tracker.inflight.get(details.tabId);
+    if (!requests) {
+      requests = new Set();
+      tracker.inflight.set(details.tabId, requests);
+    }
+    requests.add(details.requestId);
+    tracker.onChange?.();
+  };
+  const onFinish = (details: { tabId: number; requestId: string }) => {
+    if (details.tabId < 0) return;
+    tracker.inflight.get(details.tabId)?.delete(details.requestId);
+    tracker.onChange?.();
+  };
+
+  const tracker: RequestTracker = {
+    inflight: new Map(),
+    onChange: null,
+    stop: () => {
+      chrome.webRequest.onBeforeRequest.removeListener(onStart);
+      chrome.webRequest.onCompleted.removeListener(onFinish);
+      chrome.webRequest.onErrorOccurred.removeListener(onFinish);
+    }
+  };
+  chrome.webRequest.onBeforeRequest.addListener(onStart, filter);
+  chrome.webRequest.onCompleted.addListener(onFinish, filter);
+  chrome.webRequest.onErrorOccurred.addListener(onFinish, filter);
+  return tracker;
+}
+
+/**
+ * Resolve once a tab has had at most maxInflight requests open for idleTime.
+ * Only requests that start after the call are counted.
+ */
+export async function waitForNetworkIdle(tabId: number, options: NetworkIdleOptions = {}): Promise<void> {
+  const tracker = trackRequests(tabId);
+  try {
+    await waitForIdle(tabId, tracker, options);
+  } finally {
+    tracker.stop();
+  }
+}
+
+/**
+ * Resolve once a tracker has seen at most maxInflight requests open in a
+ * tab for idleTime
+ */
+function waitForIdle(tabId: number, tracker: RequestTracker, options: NetworkIdleOptions): Promise<void> {
+  const idleTime = options.idleTime ?? DEFAULT_IDLE_TIME;
+  const maxInflight = options.maxInflight ?? 0;
+  const timeout = options.timeout ?? DEFAULT_NAVIGATION_TIMEOUT;
+  const inflightCount = () => tracker.inflight.get(tabId)?.size ?? 0;
+
+  return new Promise((resolve, reject) => {
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const cleanup = () => {
+      tracker.onChange = null;
+      if (idleTimer) clearTimeout(idleTimer);
+      clearTimeout(timeoutTimer);
+    };
+
+    const check = () => {
+      if (inflightCount() > maxInflight) {
+        if (idleTimer) {
+          clearTimeout(idleTimer);
+          idleTimer = null;
+        }
+      } else if (!idleTimer) {
+        idleTimer = setTimeout(() => {
+          cleanup();
+          resolve();
+        }, idleTime);
+      }
+    };
+
+    const timeoutTimer = setTimeout(() => {
+      cleanup();
+      reject(new Error(
+        `Timed out after ${timeout}ms waiting for network idle (${inflightCount()} request(s) still in flight)`
+      ));
+    }, timeout);
+
+    tracker.onChange = check;
+    check();
+  });
+}
+
+/**
+ * Run a navigation trigger and wait for the resulting main-frame navigation.
+ * Listeners are installed before the trigger runs; the trigger returns the
+ * tab id so tabs created by the trigger can be tracked too. The wait ends
+ * early once a main-frame URL that stopAt matches commits.
+ */
+export async function navigateAndWait(
+  trigger: () => Promise<number>,
+  options: { waitUntil?: WaitUntil; timeout?: number; stopAt?: (url: string) => boolean } = {}
+): Promise<NavigationResult> {
+  const waitUntil = options.waitUntil ?? 'load';
+  const timeout = options.timeout ?? DEFAULT_NAVIGATION_TIMEOUT;
+  const startedAt = Date.now();
+
+  // Recorded with their tab id and filtered once the target tab is known
+  const redirects: (Redirect & { tabId: number })[] = [];
+  const statuses = new Map<number, number>();
+  let tabId: number | null = null;
+  let stoppedAt: string | undefined;
+
+  // Events that arrive before the trigger reports its tab id are buffered.
+  // The detail is the error for 'error' and the URL for 'stopped'.
+  type Milestone = 'DOMContentLoaded' | 'load' | 'sameDocument' | 'error' | 'stopped';
+  const buffered: { tabId: number; milestone: Milestone; detail?: string }[] = [];
+  let onMilestone: ((milestone: Milestone, detail?: string) => void) | null = null;
+
+  const emit = (eventTabId: number, milestone: Milestone, detail?: string) => {
+    if (tabId === null) {
+      buffered.push({ tabId: eventTabId, milestone, detail });
+    } else if (eventTabId === tabId) {
+      onMilestone?.(milestone, detail);
+    }
+  };
+
+  const onRedirect = (details: chrome.webRequest.WebRedirectionResponseDetails) => {
+    if (details.type === 'main_frame') {
+      redirects.push({ tabId: details.tabId, from: details.url, to: details.redirectUrl, status: details.statusCode });
+    }
+  };
+  const onResponse = (details: chrome.webRequest.WebResponseCacheDetails) => {
+    if (details.type === 'main_frame') {
+      statuses.set(details.tabId, details.statusCode);
+    }
+  };
+  const onCommitted = (details: chrome.webNavigation.WebNavigationTransitionCallbackDetails) => {
+    if (details.frameId === 0 && options.stopAt?.(details.url)) emit(details.tabId, 'stopped', details.url);
+  };
+  const onDomContentLoaded = (details: chrome.webNavigation.WebNavigationFramedCallbackDetails) => {
+    if (details.frameId === 0) emit(details.tabId, 'DOMContentLoaded');
+  };
+  const onCompleted = (details: chrome.webNavigation.WebNavigationFramedCallbackDetails) => {
+    if (details.frameId === 0) emit(details.tabId, 'load');
+  };
+  const onSameDocument = (details: chrome.webNavigation.WebNavigationTransitionCallbackDetails) => {
+    if (details.frameId === 0) emit(details.tabId, 'sameDocument');
+  };
+  const onError = (details: chrome.webNavigation.WebNavigationFramedErrorCallbackDetails) => {
+    if (details.frameId === 0) emit(details.tabId, 'error', details.error);
+  };
+
+  // The page's requests are counted from the start, when networkidle is wanted
+  const requests = waitUntil === 'networkidle' ? trackRequests() : null;
+
+  const filter = { urls: ['<all_urls>'] };
+  chrome.webRequest.onBeforeRedirect.addListener(onRedirect, filter);
+  chrome.webRequest.onResponseStarted.addListener(onResponse, filter);
+  chrome.webNavigation.onCommitted.addListener(onCommitted);
+  chrome.webNavigation.onDOMContentLoaded.addListener(onDomContentLoaded);
+  chrome.webNavigation.onCompleted.addListener(onCompleted);
+  chrome.webNavigation.onReferenceFragmentUpdated.addListener(onSameDocument);
+  chrome.webNavigation.onHistoryStateUpdated.addListener(onSameDocument);
+  chrome.webNavigation.onErrorOccurred.addListener(onError);
+
+  const cleanup = () => {
+    requests?.stop();
+    chrome.webRequest.onBeforeRedirect.removeListener(onRedirect);
+    chrome.webRequest.onResponseStarted.removeListener(onResponse);
+    chrome.webNavigation.onCommitted.removeListener(onCommitted);
+    chrome.webNavigation.onDOMContentLoaded.removeListener(onDomContentLoaded);
+    chrome.webNavigation.onCompleted.removeListener(onCompleted);
+    chrome.webNavigation.onReferenceFragmentUpdated.removeListener(onSameDocument);
+    chrome.webNavigation.onHistoryStateUpdated.removeListener(onSameDocument);
+    chrome.webNavigation.onErrorOccurred.removeListener(onError);
+  };
+
+  try {
+    tabId = await trigger();
+    const targetTabId = tabId;
+
+    if (waitUntil !== 'none') {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          onMilestone = null;
+          reject(new Error(`Timed out after ${timeout}ms waiting for ${waitUntil}`));
+        }, timeout);
+
+        onMilestone = (milestone, detail) => {
+          if (milestone === 'error') {
+            // Aborted loads are usually superseded by a redirect or another navigation
+            if (detail === 'net::ERR_ABORTED') return;
+            clearTimeout(timer);
+            onMilestone = null;
+            reject(new Error(`Navigation failed: ${detail}`));
+            return;
+          }
+          if (milestone === 'stopped') {
+            clearTimeout(timer);
+            onMilestone = null;
+            stoppedAt = detail;
+            resolve();
+            return;
+          }
+          // History API and hash navigations never fire load events
+          const reached = milestone === 'sameDocument' ||
+            milestone === 'load' ||
+            (milestone === 'DOMContentLoaded' && waitUntil === 'DOMContentLoaded');
+          if (reached) {
+            clearTimeout(timer);
+            onMilestone = null;
+            resolve();
+          }
+        };
+
+        for (const event of buffered.splice(0)) {
+          if (event.tabId === targetTabId) {
+            onMilestone?.(event.milestone, event.detail);
+          }
+        }
+      });
+
+      if (requests && !stoppedAt) {
+        await waitForIdle(targetTabId, requests, { timeout: Math.max(0, timeout - (Date.now() - startedAt)) });
+      }
+    }
+
+    const tab = await chrome.tabs.get(targetTabId);
+    return {
+      tabId: targetTabId,
+      url: tab.url || tab.pendingUrl,
+      title: tab.title,
+      status: statuses.get(targetTabId),
+      redirects: redirects
+        .filter(redirect => redirect.tabId === targetTabId)
+        .map(({ from, to, status }) => ({ from, to, status })),
+      waitUntil,
+      durationMs: Date.now() - startedAt,
+      ...(stoppedAt && { stoppedAt })
+    };
+  } finally {
+    cleanup();
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * Network Activity Recorder
+ * Collects Network domain events from the debugger per tab and turns them
+ * into filtered entry lists or HAR 1.2 exports
+ */
+
+export interface NetworkEntry {
+  requestId: string;
+  url: string;
+  method: string;
+  resourceType?: string;
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  startedDateTime: string;
+  status?: number;
+  statusText?: string;
+  protocol?: string;
+  mimeType?: string;
+  responseHeaders?: Record<string, string>;
+  remoteAddress?: string;
+  fromCache?: boolean;
+  encodedDataLength?: number;
+  durationMs?: number;
+  redirectedTo?: string;
+  state: 'pending' | 'complete' | 'failed';
+  errorText?: string;
+  canceled?: boolean;
+  timing?: ResourceTiming;
+  body?: string;
+  bodyBase64?: boolean;
+  bodyTruncated?: boolean;
+}
+
+/** Subset of CDP Network.ResourceTiming used for HAR timings */
+interface ResourceTiming {
+  requestTime: number;
+  dnsStart: number;
+  dnsEnd: number;
+  connectStart: number;
+  connectEnd: number;
+  sslStart: number;
+  sslEnd: number;
+  sendStart: number;
+  sendEnd: number;
+  receiveHeadersEnd: number;
+}
+
+interface CdpResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  mimeType: string;
+  protocol?: string;
+  remoteIPAddress?: string;
+  fromDiskCache?: boolean;
+  fromServiceWorker?: boolean;
+  encodedDataLength?: number;
+  timing?: ResourceTiming;
+}
+
+export interface NetworkLogFilter {
+  /** Case-insensitive substring matched against the request URL */
+  urlFilter?: string;
+  /** Exact status code, or a status class such as "4xx" */
+  status?: number | string;
+  failedOnly?: boolean;
+  resourceTypes?: string[];
+  limit?: number;
+}
+
+// Per-entry bookkeeping that doesn't belong in the reported entry
+interface TrackedEntry {
+  entry: NetworkEntry;
+  startTimestamp: number;
+}
+
+const networkLogs = new Map<number, NetworkEntry[]>();
+const inFlight = new Map<number, Map<string, TrackedEntry>>();
+// When each tab's log started recording
+const captureStarts = new Map<number, number>();
+const MAX_NETWORK_ENTRIES_PER_TAB = 1000;
+const DEFAULT_MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * Start a fresh network log for a tab
+ */
+export function resetNetworkLog(tabId: number): void {
+  networkLogs.set(tabId, []);
+  inFlight.set(tabId, new Map());
+  captureStarts.set(tabId, Date.now());
+}
+
+/**
+ * Forget everything recorded for a tab
+ */
+export function clearNetworkLog(tabId: number): void {
+  networkLogs.delete(tabId);
+  inFlight.delete(tabId);
+  captureStarts.delete(tabId);
+}
+
+/**
+ * Drop finished and failed entries, keeping requests still in flight so
+ * their responses are recorded when they arrive
+ */
+export function clearFinishedNetworkEntries(tabId: number): void {
+  const entries = networkLogs.get(tabId);
+  const pending = inFlight.get(tabId);
+  if (!entries || !pending) return;
+
+  networkLogs.set(tabId, entries.filter(entry => entry.state === 'pending'));
+  for (const [requestId, tracked] of pending) {
+    if (tracked.entry.state !== 'pending') {
+      pending.delete(requestId);
+    }
+  }
+}
+
+/**
+ * When a tab's log started recording, or undefined if it isn't recording
+ */
+export function networkCaptureStart(tabId: number): number | undefined {
+  return captureStarts.get(tabId);
+}
+
+/**
+ * Record a Network domain debugger event
+ */
+export function recordNetworkEvent(tabId: number, method: string, params: any): void {
+  const entries = networkLogs.get(tabId);
+  const pending = inFlight.get(tabId);
+  if (!entries || !pending) return;
+
+  switch (method) {
+    case 'Network.requestWillBeSent': {
+      // A redirect reuses the requestId; close out the previous hop first
+      const previous = pending.get(params.requestId);
+      if (previous && params.redirectResponse) {
+        applyResponse(previous.entry, params.redirectResponse);
+        previous.entry.state = 'complete';
+        previous.entry.redirectedTo = params.request.url;
+        previous.entry.durationMs = (params.timestamp - previous.startTimestamp) * 1000;
+      }
+
+      const entry: NetworkEntry = {
+        requestId: params.requestId,
+        url: params.request.url,
+        method: params.request.method,
+        resourceType: params.type,
+        requestHeaders: params.request.headers || {},
+        postData: params.request.postData,
+        startedDateTime: new Date(params.wallTime * 1000).toISOString(),
+        state: 'pending'
+      };
+      pending.set(params.requestId, { entry, startTimestamp: params.timestamp });
+      entries.push(entry);
+
+      if (entries.length > MAX_NETWORK_ENTRIES_PER_TAB) {
+        const dropped = entries.splice(0, entries.length - MAX_NETWORK_ENTRIES_PER_TAB);
+        for (const old of dropped) {
+          if (pending.get(old.requestId)?.entry === old) {
+            pending.delete(old.requestId);
+          }
+        }
+      }
+      break;
+    }
+
+    case 'Network.responseReceived': {
+      const tracked = pending.get(params.requestId);
+      if (tracked) {
+        applyResponse(tracked.entry, params.response);
+        tracked.entry.resourceType = params.type || tracked.entry.resourceType;
+      }
+      break;
+    }
+
+    case 'Network.loadingFinished': {
+      const tracked = pending.get(params.requestId);
+      if (tracked) {
+        tracked.entry.state = 'complete';
+        tracked.entry.encodedDataLength = params.encodedDataLength;
+        tracked.entry.durationMs = (params.timestamp - tracked.startTimestamp) * 1000;
+        // Keep the request addressable so its body can still be fetched
+      }
+      break;
+    }
+
+    case 'Network.loadingFailed': {
+      const tracked = pending.get(params.requestId);
+      if (tracked) {
+        tracked.entry.state = 'failed';
+        tracked.entry.errorText = params.errorText;
+        tracked.entry.canceled = params.canceled;
+        tracked.entry.durationMs = (params.timestamp - tracked.startTimestamp) * 1000;
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Copy response details from a CDP Response object onto an entry
+ */
+function applyResponse(entry: NetworkEntry, response: CdpResponse): void {
+  entry.status = response.status;
+  entry.statusText = response.statusText;
+  entry.protocol = response.protocol;
+  entry.mimeType = response.mimeType;
+  entry.responseHeaders = response.headers;
+  entry.remoteAddress = response.remoteIPAddress;
+  entry.fromCache = response.fromDiskCache || response.fromServiceWorker;
+  entry.timing = response.timing;
+}
+
+/**
+ * Get recorded entries for a tab, newest last, after applying filters
+ */
+export function getNetworkEntries(tabId: number, filter: NetworkLogFilter = {}): NetworkEntry[] {
+  let entries = networkLogs.get(tabId) || [];
+
+  if (filter.urlFilter) {
+    const needle = filter.urlFilter.toLowerCase();
+    entries = entries.filter(e => e.url.toLowerCase().includes(needle));
+  }
+
+  if (filter.status !== undefined) {
+    const statusClass = typeof filter.status === 'string' && /^[1-5]xx$/i.test(filter.status)
+      ? Number(filter.status[0])
+      : null;
+    const exact = Number(filter.status);
+    entries = entries.filter(e => {
+      if (e.status === undefined) return false;
+      return statusClass !== null ? Math.floor(e.status / 100) === statusClass : e.status === exact;
+    });
+  }
+
+  if (filter.failedOnly) {
+    entries = entries.filter(e => e.state === 'failed' || (e.status !== undefined && e.status >= 400));
+  }
+
+  if (filter.resourceTypes?.length) {
+    const types = filter.resourceTypes.map(t => t.toLowerCase());
+    entries = entries.filter(e => e.resourceType && types.includes(e.resourceType.toLowerCase()));
+  }
+
+  if (filter.limit && filter.limit > 0) {
+    entries = entries.slice(-filter.limit);
+  }
+
+  return entries;
+}
+
+/**
+ * Fetch response bodies for completed entries through the debugger.
+ * Returns copies so the stored log doesn't grow with body text.
+ */
+export async function withResponseBodies(
+  tabId: number,
+  entries: NetworkEntry[],
+  maxBodySize: number = DEFAULT_MAX_BODY_SIZE
+): Promise<NetworkEntry[]> {
+  return Promise.all(entries.map(async (entry) => {
+    // Redirect hops and failed requests have no retrievable body
+    if (entry.state !== 'complete' || entry.redirectedTo) {
+      return entry;
+    }
+
+    try {
+      const result = await chrome.debugger.sendCommand(
+        { tabId },
+        'Network.getResponseBody',
+        { requestId: entry.requestId }
+      ) as { body: string; base64Encoded: boolean };
+
+      const truncated = result.body.length > maxBodySize;
+      return {
+        ...entry,
+        body: truncated ? result.body.slice(0, maxBodySize) : result.body,
+        bodyBase64: result.base64Encoded,
+        bodyTruncated: truncated
+      };
+    } catch {
+      // Body was evicted from the inspector cache or never existed
+      return entry;
+    }
+  }));
+}
+
+/**
+ * Build a HAR 1.2 document from network entries
+ */
+export function toHar(
+  entries: NetworkEntry[],
+  page: { url?: string; title?: string }
+): Record<string, unknown> {
+  const pageId = 'page_1';
+  const startedDateTime = entries[0]?.startedDateTime || new Date().toISOString();
+
+  return {
+    log: {
+      version: '1.2',
+      creator: {
+        name: 'Chrome Gemini Sync',
+        version: chrome.runtime.getManifest().version
+      },
+      pages: [{
+        startedDateTime,
+        id: pageId,
+        title: page.title || page.url || '',
+        pageTimings: {}
+      }],
+      entries: entries.map(entry => toHarEntry(entry, pageId))
+    }
+  };
+}
+
+/**
+ * Convert one network entry to a HAR entry
+ */
+function toHarEntry(entry: NetworkEntry, pageId: string): Record<string, unknown> {
+  const httpVersion = entry.protocol?.toUpperCase() || 'HTTP/1.1';
+  const timings = toHarTimings(entry);
+  const total = entry.durationMs ?? -1;
+
+  const content: Record<string, unknown> = {
+    size: entry.body !== undefined ? entry.body.length : -1,
+    mimeType: entry.mimeType || 'x-unknown'
+  };
+  if (entry.body !== undefined) {
+    content.text = entry.body;
+    if (entry.bodyBase64) {
+      content.encoding = 'base64';
+    }
+  }
+
+  const harEntry: Record<string, unknown> = {
+    pageref: pageId,
+    startedDateTime: entry.startedDateTime,
+    time: total,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion,
+      cookies: [],
+      headers: toHarHeaders(entry.requestHeaders),
+      queryString: toQueryString(entry.url),
+      headersSize: -1,
+      bodySize: entry.postData?.length ?? 0,
+      ...(entry.postData !== undefined && {
+        postData: {
+          mimeType: headerValue(entry.requestHeaders, 'content-type') || '',
+          text: entry.postData
+        }
+      })
+    },
+    response: {
+      status: entry.status ?? 0,
+      statusText: entry.statusText || entry.errorText || '',
+      httpVersion,
+      cookies: [],
+      headers: toHarHeaders(entry.responseHeaders || {}),
+      content,
+      redirectURL: entry.redirectedTo || '',
+      headersSize: -1,
+      bodySize: entry.encodedDataLength ?? -1
+    },
+    cache: {},
+    timings
+  };
+
+  if (entry.remoteAddress) {
+    harEntry.serverIPAddress = entry.remoteAddress;
+  }
+  if (entry.errorText) {
+    harEntry._error = entry.errorText;
+  }
+
+  return harEntry;
+}
+
+/**
+ * Derive HAR phase timings from CDP ResourceTiming (all values in ms)
+ */
+function toHarTimings(entry: NetworkEntry): Record<string, number> {
+  const t = entry.timing;
+  if (!t) {
+    return { send: 0, wait: entry.durationMs ?? -1, receive: 0 };
+  }
+
+  const span = (start: number, end: number) => (start >= 0 && end >= 0 ? end - start : -1);
+  const firstPhase = [t.dnsStart, t.connectStart, t.sendStart].find(v => v >= 0) ?? 0;
+  const receive = entry.durationMs !== undefined
+    ? Math.max(0, entry.durationMs - t.receiveHeadersEnd)
+    : 0;
+
+  return {
+    blocked: firstPhase,
+    dns: span(t.dnsStart, t.dnsEnd),
+    connect: span(t.connectStart, t.connectEnd),
+    ssl: span(t.sslStart, t.sslEnd),
+    send: Math.max(0, span(t.sendStart, t.sendEnd)),
+    wait: Math.max(0, span(t.sendEnd, t.receiveHeadersEnd)),
+    receive
+  };
+}
+
+function toHarHeaders(headers: Record<string, string>): { name: string; value: string }[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function headerValue(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+function toQueryString(url: string): { name: string; value: string }[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Paged Reads
+ * Markup too long for one response is kept for a short while and served a
+ * page at a time through a cursor, so every page comes from the same read
+ */
+
+export interface MarkupPage {
+  html: string;
+  /** Fallback selectors for the refs that appear on this page */
+  refs?: Record<string, string>;
+  offset: number;
+  totalLength: number;
+  /** Where the next page starts, or null on the last page */
+  nextOffset: number | null;
+  truncated: boolean;
+  /** Pass back with nextOffset for the next page; absent on the last page */
+  cursor?: string;
+}
+
+/** Where markup was read; later pages are only served back to the same place */
+export interface MarkupSource {
+  tabId: number;
+  frameId: number;
+  /** The frame's document URL when it was read */
+  url: string;
+}
+
+interface StoredMarkup {
+  source: MarkupSource;
+  html: string;
+  refs?: Record<string, string>;
+  /** Fields repeated on every page, such as url and title */
+  details: object;
+  expiresAt: number;
+}
+
+/** Characters of markup per page unless a request asks for fewer or more */
+export const DEFAULT_PAGE_LENGTH = 500 * 1024;
+/** Longest page served, so a page and its refs fit under the response limit */
+const MAX_PAGE_LENGTH = 2 * 1024 * 1024;
+/** Unread pages are dropped after this long */
+const CURSOR_TTL = 2 * 60 * 1000;
+/** Markup kept at once; the oldest goes first */
+const MAX_STORED = 4;
+
+const stored = new Map<string, StoredMarkup>();
+
+/**
+ * The first page of some markup, keeping the rest for later pages when it
+ * doesn't fit
+ */
+export function firstPage(
+  html: string,
+  refs: Record<string, string> | undefined,
+  details: object,
+  source: MarkupSource,
+  offset: number,
+  maxLength: number
+): MarkupPage {
+  const page = sliceMarkup(html, refs, offset, maxLength);
+  if (page.nextOffset === null) {
+    return { ...details, ...page };
+  }
+
+  dropExpired();
+  while (stored.size >= MAX_STORED) {
+    stored.delete(stored.keys().next().value!);
+  }
+  const cursor = crypto.randomUUID();
+  stored.set(cursor, { source, html, refs, details, expiresAt: Date.now() + CURSOR_TTL });
+  return { ...details, ...page, cursor };
+}
+
+/**
+ * The frame a cursor's markup was read from
+ */
+export function cursorFrameId(cursor: string): number {
+  return storedMarkup(cursor).source.frameId;
+}
+
+/**
+ * A later page of markup kept by firstPage. Throws unless the request
+ * targets the tab, frame and document the markup was read from.
+ */
+export function nextPage(cursor: string, current: MarkupSource, offset: number, maxLength: number): MarkupPage {
+  const entry = storedMarkup(cursor);
+  const { source } = entry;
+  if (source.tabId !== current.tabId || source.frameId !== current.frameId) {
+    throw new Error(`Cursor was issued for tab ${source.tabId}, frame ${source.frameId}; call getDom again without one`);
+  }
+  if (source.url !== current.url) {
+    stored.delete(cursor);
+    throw new Error('The page has changed since the cursor was issued; call getDom again without one');
+  }
+
+  const page = sliceMarkup(entry.html, entry.refs, offset, maxLength);
+  if (page.nextOffset === null) {
+    stored.delete(cursor);
+    return { ...entry.details, ...page };
+  }
+  entry.expiresAt = Date.now() + CURSOR_TTL;
+  return { ...entry.details, ...page, cursor };
+}
+
+/**
+ * Cut a page out of markup. Pages end just before a tag where one starts in
+ * the second half of the page, and never inside a surrogate pair.
+ */
+function sliceMarkup(
+  html: string,
+  refs: Record<string, string> | undefined,
+  offset: number,
+  maxLength: number
+): MarkupPage {
+  if (!Number.isInteger(offset) || offset < 0 || offset > html.length) {
+    throw new Error(`offset must be between 0 and ${html.length}`);
+  }
+  if (!Number.isInteger(maxLength) || maxLength < 1 || maxLength > MAX_PAGE_LENGTH) {
+    throw new Error(`maxLength must be an integer between 1 and ${MAX_PAGE_LENGTH}`);
+  }
+
+  let end = Math.min(html.length, offset + maxLength);
+  if (end < html.length) {
+    const tagStart = html.lastIndexOf('<', end);
+    if (tagStart > offset + maxLength / 2) {
+      end = tagStart;
+    } else if (/[\uD800-\uDBFF]/.test(html[end - 1])) {
+      end--;
+    }
+  }
+
+  const text = html.slice(offset, end);
+  let pageRefs: Record<string, string> | undefined;
+  if (refs) {
+    pageRefs = {};
+    for (const match of text.matchAll(/data-gemini-ref="(e\d+)"/g)) {
+      if (refs[match[1]]) pageRefs[match[1]] = refs[match[1]];
+    }
+  }
+
+  const nextOffset = end < html.length ? end : null;
+  return {
+    html: text,
+    ...(pageRefs && { refs: pageRefs }),
+    offset,
+    totalLength: html.length,
+    nextOffset,
+    truncated: nextOffset !== null
+  };
+}
+
+function storedMarkup(cursor: string): StoredMarkup {
+  dropExpired();
+  const entry = stored.get(cursor);
+  if (!entry) {
+    throw new Error('Unknown or expired cursor; call getDom again without one');
+  }
+  return entry;
+}
+
+function dropExpired(): void {
+  const now = Date.now();
+  for (const [cursor, entry] of stored) {
+    if (entry.expiresAt < now) stored.delete(cursor);
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Readable Content Extraction
+ * Injected into pages to isolate the main article and convert it to Markdown
+ */
+
+export interface ReadableContentOptions {
+  /** Use this element as the content root instead of detecting it */
+  selector?: string;
+  /** Keep images as ![alt](src); otherwise they are dropped */
+  includeImages?: boolean;
+  /** Truncate the Markdown to this many characters */
+  maxLength?: number;
+}
+
+export interface ReadableContentResult {
+  markdown?: string;
+  title?: string;
+  byline?: string;
+  excerpt?: string;
+  url?: string;
+  length?: number;
+  truncated?: boolean;
+  error?: string;
+}
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ */
+export function extractReadableContent(options: ReadableContentOptions): ReadableContentResult {
+  const BOILERPLATE_TAGS = 'script, style, noscript, template, iframe, svg, canvas, form, nav, header, footer, aside, button, input, select, textarea, dialog';
+  const BOILERPLATE_ROLES = '[role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [role="dialog"], [role="alert"], [aria-hidden="true"], [hidden]';
+  const BOILERPLATE_HINT = /(^|[-_\s])(comment|sidebar|footer|nav|menu|share|social|promo|advert|ads?|cookie|banner|related|subscribe|newsletter|breadcrumb|popup|modal)([-_\s]|$)/i;
+  const BLOCK_TAGS = new Set([
+    'P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+    'UL', 'OL', 'LI', 'PRE', 'BLOCKQUOTE', 'TABLE', 'FIGURE', 'FIGCAPTION', 'HR',
+    'DL', 'DT', 'DD'
+  ]);
+
+  const textLength = (el: Element) => (el.textContent || '').replace(/\s+/g, ' ').trim().length;
+
+  const linkDensity = (el: Element) => {
+    const total = textLength(el);
+    if (total === 0) return 1;
+    let linked = 0;
+    el.querySelectorAll('a').forEach(a => { linked += textLength(a); });
+    return linked / total;
+  };
+
+  /**
+   * Pick the element most likely to hold the main content
+   */
+  const findContentRoot = (): Element => {
+    const semantic = document.querySelector('article, main, [role="main"], [itemprop="articleBody"]');
+    if (semantic && textLength(semantic) > 200) {
+      return semantic;
+    }
+
+    // Score containers by the paragraph text they directly hold
+    const scores = new Map<Element, number>();
+    document.querySelectorAll('p, pre, td, blockquote').forEach(p => {
+      const length = textLength(p);
+      if (length < 25) return;
+      const score = 1 + Math.min(length / 100, 3) + (p.textContent!.split(',').length - 1) * 0.1;
+      const parent = p.parentElement;
+      const grandparent = parent?.parentElement;
+      if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+      if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+    });
+
+    let best: Element = document.body;
+    let bestScore = 0;
+    scores.forEach((score, el) => {
+      const adjusted = score * (1 - linkDensity(el));
+      if (adjusted > bestScore) {
+        best = el;
+        bestScore = adjusted;
+      }
+    });
+    return best;
+  };
+
+  /**
+   * Clone the root and strip navigation, ads and hidden elements
+   */
+  const cleanClone = (root: Element): Element => {
+    const clone = root.cloneNode(true) as Element;
+    clone.querySelectorAll(`${BOILERPLATE_TAGS}, ${BOILERPLATE_ROLES}`).forEach(el => el.remove());
+    clone.querySelectorAll('*').forEach(el => {
+      const hint = `${el.id} ${typeof el.className === 'string' ? el.className : ''}`;
+      if (hint.trim() && BOILERPLATE_HINT.test(hint) && linkDensity(el) > 0.3) {
+        el.remove();
+      }
+    });
+    return clone;
+  };
+
+  const absoluteUrl = (url: string | null) => {
+    if (!url) return '';
+    try {
+      return new URL(url, document.baseURI).href;
+    } catch {
+      return url;
+    }
+  };
+
+  const escapeInline = (text: string) => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return escapeInline((node.textContent || '').replace(/\s+/g, ' '));
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as Element;
+    const content = () => Array.from(el.childNodes).map(inline).join('');
+
+    switch (el.tagName) {
+      case 'BR':
+        return '  \n';
+      case 'STRONG':
+      case 'B': {
+        const text = content().trim();
+        return text ? `**${text}**` : '';
+      }
+      case 'EM':
+      case 'I': {
+        const text = content().trim();
+        return text ? `_${text}_` : '';
+      }
+      case 'DEL':
+      case 'S':
+        return `~~${content().trim()}~~`;
+      case 'CODE':
+      case 'KBD':
+      case 'SAMP': {
+        const code = el.textContent || '';
+        const fence = code.includes('`') ? '``' : '`';
+        return `${fence}${code}${fence}`;
+      }
+      case 'A': {
+        const text = content().trim();
+        const href = el.getAttribute('href');
+        if (!href || href.startsWith('javascript:')) return text;
+        if (!text) return '';
+        return `[${text}](${absoluteUrl(href)})`;
+      }
+      case 'IMG': {
+        if (!options.includeImages) return '';
+        const alt = escapeInline(el.getAttribute('alt') || '');
+        const src = absoluteUrl(el.getAttribute('src'));
+        return src ? `![${alt}](${src})` : '';
+      }
+      default:
+        return BLOCK_TAGS.has(el.tagName) ? block(el, 0).trim() : content();
+    }
+  };
+
+  const list = (el: Element, depth: number): string => {
+    const ordered = el.tagName === 'OL';
+    const start = Number(el.getAttribute('start')) || 1;
+    const indent = '  '.repeat(depth);
+    const items: string[] = [];
+    Array.from(el.children).forEach((li, i) => {
+      if (li.tagName !== 'LI') return;
+      const marker = ordered ? `${start + i}.` : '-';
+      const text: string[] = [];
+      const nested: string[] = [];
+      li.childNodes.forEach(child => {
+        if (child.nodeType === Node.ELEMENT_NODE && ['UL', 'OL'].includes((child as Element).tagName)) {
+          nested.push(list(child as Element, depth + 1));
+        } else {
+          text.push(child.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((child as Element).tagName)
+            ? block(child as Element, depth + 1).trim()
+            : inline(child));
+        }
+      });
+      items.push(`${indent}${marker} ${text.join('').trim()}`);
+      items.push(...nested);
+    });
+    return items.join('\n');
+  };
+
+  const table = (el: Element): string => {
+    const rows = Array.from(el.querySelectorAll('tr'));
+    if (rows.length === 0) return '';
+    const cells = rows.map(row =>
+      Array.from(row.children).map(cell => inline(cell).trim().replace(/\|/g, '\\|').replace(/\n+/g, ' '))
+    );
+    const width = Math.max(...cells.map(row => row.length));
+    const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+    const [header, ...body] = cells.map(pad);
+    return [
+      `| ${header.join(' | ')} |`,
+      `| ${header.map(() => '---').join(' | ')} |`,
+      ...body.map(row => `| ${row.join(' | ')} |`)
+    ].join('\n');
+  };
+
+  const block = (el: Element, depth: number): string => {
+    const children = () => Array.from(el.childNodes).map(child =>
+      child.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((child as Element).tagName)
+        ? `\n\n${block(child as Element, depth)}\n\n`
+        : inline(child)
+    ).join('');
+
+    switch (el.tagName) {
+      case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+        const text = Array.from(el.childNodes).map(inline).join('').trim();
+        return text ? `${'#'.repeat(Number(el.tagName[1]))} ${text}` : '';
+      }
+      case 'PRE': {
+        const code = el.querySelector('code');
+        const language = (code?.className.match(/(?:lang|language)-([\w-]+)/) || [])[1] || '';
+        const text = (el.textContent || '').replace(/\n$/, '');
+        const fence = text.includes('```') ? '````' : '```';
+        return `${fence}${language}\n${text}\n${fence}`;
+      }
+      case 'BLOCKQUOTE':
+        return children().trim().split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+      case 'UL':
+      case 'OL':
+        return list(el, depth);
+      case 'TABLE':
+        return table(el);
+      case 'HR':
+        return '---';
+      default:
+        return children();
+    }
+  };
+
+  try {
+    const root = options.selector ? document.querySelector(options.selector) : findContentRoot();
+    if (!root) {
+      return { error: `Element not found: ${options.selector}` };
+    }
+
+    let markdown = block(cleanClone(root), 0)
+      .replace(/[ \t]+\n/g, match => (match.startsWith('  ') ? '  \n' : '\n'))
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    const title = document.querySelector('meta[property="og:title"]')?.getAttribute('content') ||
+      document.querySelector('h1')?.textContent?.trim() ||
+      document.title;
+    const byline = document.querySelector('meta[name="author"]')?.getAttribute('content') ||
+      document.querySelector('[rel="author"], [itemprop="author"], .byline, .author')?.textContent?.trim() ||
+      undefined;
+    const excerpt = document.querySelector('meta[name="description"], meta[property="og:description"]')
+      ?.getAttribute('content') || undefined;
+
+    const length = markdown.length;
+    const truncated = !!options.maxLength && length > options.maxLength;
+    if (truncated) {
+      markdown = markdown.slice(0, options.maxLength);
+    }
+
+    return {
+      markdown,
+      title,
+      byline,
+      excerpt,
+      url: window.location.href,
+      length,
+      truncated
+    };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : 'Failed to extract readable content' };
+  }
+}
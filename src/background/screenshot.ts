@@ -0,0 +1,177 @@
+/**
+ * Screenshot Capture
+ * Full-page, element and clipped screenshots through the debugger's
+ * Page.captureScreenshot, with format, quality and downscaling options
+ */
+
+import { injectDomHelpers } from './frames';
+
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ClipRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ScreenshotOptions {
+  format?: ScreenshotFormat;
+  /** 0-100, for jpeg and webp only */
+  quality?: number;
+  fullPage?: boolean;
+  /** Capture just this element; ">>>" steps into shadow roots */
+  selector?: string;
+  /** Capture this rectangle, in CSS pixels relative to the page */
+  clip?: ClipRect;
+  /** Output pixels per CSS pixel; defaults to the device pixel ratio */
+  scale?: number;
+  /** Downscale so neither side of the image exceeds this many pixels */
+  maxDimension?: number;
+}
+
+export interface ScreenshotResult {
+  dataUrl: string;
+  format: ScreenshotFormat;
+  width: number;
+  height: number;
+  clip: ClipRect;
+  scale: number;
+}
+
+type PageGeometry =
+  | { ok: true; devicePixelRatio: number; rect: ClipRect | null }
+  | { ok: false; error: string };
+
+/**
+ * Check format/quality combinations before capturing
+ */
+export function validateScreenshotOptions(options: ScreenshotOptions): string | null {
+  if (options.format && !['png', 'jpeg', 'webp'].includes(options.format)) {
+    return `Unsupported format: ${options.format}`;
+  }
+  if (options.quality !== undefined) {
+    if (!options.format || options.format === 'png') {
+      return 'quality only applies to jpeg and webp';
+    }
+    if (options.quality < 0 || options.quality > 100) {
+      return 'quality must be between 0 and 100';
+    }
+  }
+  if (options.scale !== undefined && !(options.scale > 0)) {
+    return 'scale must be greater than 0';
+  }
+  if (options.maxDimension !== undefined && !(options.maxDimension >= 1)) {
+    return 'maxDimension must be at least 1';
+  }
+  if (options.clip && (options.clip.width <= 0 || options.clip.height <= 0)) {
+    return 'clip width and height must be greater than 0';
+  }
+  return null;
+}
+
+/**
+ * Capture a screenshot of a tab that has the debugger attached
+ */
+export async function captureWithDebugger(
+  tabId: number,
+  options: ScreenshotOptions
+): Promise<ScreenshotResult> {
+  const format = options.format || 'png';
+
+  await injectDomHelpers(tabId);
+  const [geometryResult] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: measureTarget,
+    args: [options.selector ?? null]
+  });
+  const geometry = geometryResult?.result as PageGeometry | undefined;
+  if (!geometry) {
+    throw new Error('Failed to measure page');
+  }
+  if (!geometry.ok) {
+    throw new Error(geometry.error);
+  }
+
+  const metrics = await chrome.debugger.sendCommand({ tabId }, 'Page.getLayoutMetrics') as {
+    cssContentSize: { width: number; height: number };
+    cssVisualViewport: { pageX: number; pageY: number; clientWidth: number; clientHeight: number };
+  };
+
+  let clip: ClipRect;
+  if (geometry.rect) {
+    clip = geometry.rect;
+  } else if (options.clip) {
+    clip = options.clip;
+  } else if (options.fullPage) {
+    clip = { x: 0, y: 0, width: metrics.cssContentSize.width, height: metrics.cssContentSize.height };
+  } else {
+    const viewport = metrics.cssVisualViewport;
+    clip = { x: viewport.pageX, y: viewport.pageY, width: viewport.clientWidth, height: viewport.clientHeight };
+  }
+
+  // CDP's clip.scale is applied on top of the device pixel ratio
+  const dpr = geometry.devicePixelRatio || 1;
+  let outputScale = options.scale ?? dpr;
+  if (options.maxDimension) {
+    const longest = Math.max(clip.width, clip.height) * outputScale;
+    if (longest > options.maxDimension) {
+      outputScale *= options.maxDimension / longest;
+    }
+  }
+
+  const { data } = await chrome.debugger.sendCommand({ tabId }, 'Page.captureScreenshot', {
+    format,
+    ...(format !== 'png' && { quality: options.quality ?? 80 }),
+    clip: { ...clip, scale: outputScale / dpr },
+    captureBeyondViewport: true,
+    fromSurface: true
+  }) as { data: string };
+
+  return {
+    dataUrl: `data:image/${format};base64,${data}`,
+    format,
+    width: Math.round(clip.width * outputScale),
+    height: Math.round(clip.height * outputScale),
+    clip,
+    scale: outputScale
+  };
+}
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ */
+function measureTarget(selector: string | null): PageGeometry {
+  if (!selector) {
+    return { ok: true, devicePixelRatio: window.devicePixelRatio, rect: null };
+  }
+
+  // Loaded by injectDomHelpers
+  const { queryDeep } = globalThis.__geminiDom!;
+  let el: Element | undefined;
+  try {
+    el = queryDeep(selector)[0];
+  } catch {
+    return { ok: false, error: `Invalid selector: ${selector}` };
+  }
+  if (!el) {
+    return { ok: false, error: `Element not found: ${selector}` };
+  }
+
+  const rect = el.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) {
+    return { ok: false, error: `Element has no size: ${selector}` };
+  }
+
+  return {
+    ok: true,
+    devicePixelRatio: window.devicePixelRatio,
+    rect: {
+      x: rect.left + window.scrollX,
+      y: rect.top + window.scrollY,
+      width: rect.width,
+      height: rect.height
+    }
+  };
+}
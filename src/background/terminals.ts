@@ -0,0 +1,171 @@
+/**
+ * Terminal Sessions
+ * Registry of the terminal sessions open in the side panel. Each session is
+ * a separate conversation on the backend; the registry outlives the side
+ * panel so sessions survive it being closed and are re-opened on the
+ * backend after a reconnect. Recent output is kept per session so a side
+ * panel opened later can replay it.
+ */
+
+import type { TerminalSessionInfo, TerminalOpenMessage, TerminalReplayResponse } from '../types/messages';
+
+/** Output kept per session for replay, in characters */
+const MAX_SCROLLBACK = 256 * 1024;
+
+interface Scrollback {
+  chunks: string[];
+  size: number;
+  /** Stream position after the last chunk; counts discarded output too */
+  end: number;
+}
+
+/** Scrollback as persisted across worker restarts */
+export interface SavedScrollback {
+  data: string;
+  end: number;
+}
+
+const sessions = new Map<string, TerminalSessionInfo>();
+const scrollback = new Map<string, Scrollback>();
+
+/**
+ * Register a session opened by the side panel
+ */
+export function openTerminalSession(message: TerminalOpenMessage): TerminalSessionInfo {
+  const existing = sessions.get(message.sessionId);
+  const session: TerminalSessionInfo = {
+    sessionId: message.sessionId,
+    name: message.name,
+    cols: message.cols,
+    rows: message.rows,
+    createdAt: existing?.createdAt ?? Date.now()
+  };
+  sessions.set(session.sessionId, session);
+  return session;
+}
+
+/**
+ * Forget a session; returns false if it wasn't open
+ */
+export function closeTerminalSession(sessionId: string): boolean {
+  scrollback.delete(sessionId);
+  return sessions.delete(sessionId);
+}
+
+export function renameTerminalSession(sessionId: string, name: string): boolean {
+  const session = sessions.get(sessionId);
+  if (!session) return false;
+  session.name = name;
+  return true;
+}
+
+export function resizeTerminalSession(sessionId: string, cols: number, rows: number): void {
+  const session = sessions.get(sessionId);
+  if (session) {
+    session.cols = cols;
+    session.rows = rows;
+  }
+}
+
+export function hasTerminalSession(sessionId: string): boolean {
+  return sessions.has(sessionId);
+}
+
+/**
+ * Open sessions, oldest first
+ */
+export function listTerminalSessions(): TerminalSessionInfo[] {
+  return Array.from(sessions.values()).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Messages that (re)create every open session on the backend
+ */
+export function terminalOpenMessages(): TerminalOpenMessage[] {
+  return listTerminalSessions().map(({ sessionId, name, cols, rows }) => ({
+    type: 'terminal:open',
+    sessionId,
+    name,
+    cols,
+    rows
+  }));
+}
+
+/**
+ * Add output to a session's ring buffer, dropping the oldest beyond the cap.
+ * Returns the stream position after this chunk.
+ */
+export function appendTerminalOutput(sessionId: string, data: string): number {
+  let buffer = scrollback.get(sessionId);
+  if (!buffer) {
+    buffer = { chunks: [], size: 0, end: 0 };
+    scrollback.set(sessionId, buffer);
+  }
+
+  buffer.chunks.push(data);
+  buffer.size += data.length;
+  buffer.end += data.length;
+
+  while (buffer.size > MAX_SCROLLBACK) {
+    const excess = buffer.size - MAX_SCROLLBACK;
+    const oldest = buffer.chunks[0];
+    if (oldest.length <= excess) {
+      buffer.chunks.shift();
+      buffer.size -= oldest.length;
+    } else {
+      buffer.chunks[0] = oldest.slice(excess);
+      buffer.size -= excess;
+    }
+  }
+  return buffer.end;
+}
+
+/**
+ * Everything still buffered for a session
+ */
+export function getTerminalScrollback(sessionId: string): TerminalReplayResponse {
+  const buffer = scrollback.get(sessionId);
+  if (!buffer) {
+    return { data: '', end: 0, truncated: false };
+  }
+  // Collapse so later replays don't re-join every chunk
+  const data = buffer.chunks.join('');
+  buffer.chunks = data ? [data] : [];
+  const truncated = buffer.end > buffer.size;
+  // The cut may have landed mid-line or mid escape sequence; start at a line break
+  const lineStart = truncated ? data.indexOf('\n') + 1 : 0;
+  return { data: data.slice(lineStart), end: buffer.end, truncated };
+}
+
+/**
+ * Scrollback of every session, for persisting across worker restarts
+ */
+export function saveTerminalScrollback(): Record<string, SavedScrollback> {
+  return Object.fromEntries(
+    Array.from(scrollback.entries(), ([sessionId, buffer]) => {
+      const data = buffer.chunks.join('');
+      buffer.chunks = data ? [data] : [];
+      return [sessionId, { data, end: buffer.end }];
+    })
+  );
+}
+
+/**
+ * Reload sessions and scrollback persisted by a previous worker
+ */
+export function restoreTerminalSessions(
+  saved: TerminalSessionInfo[],
+  savedScrollback: Record<string, SavedScrollback> = {}
+): void {
+  for (const session of saved) {
+    sessions.set(session.sessionId, { ...session });
+    const buffer = savedScrollback[session.sessionId];
+    if (buffer) {
+      scrollback.set(session.sessionId, {
+        chunks: buffer.data ? [buffer.data] : [],
+        size: buffer.data.length,
+        end: buffer.end
+      });
+    }
+  }
+}
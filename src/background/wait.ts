@@ -0,0 +1,169 @@
+/**
+ * Wait Conditions
+ * Page-side waiting for selectors, text and JS predicates, driven by a
+ * MutationObserver or interval polling
+ */
+
+export type SelectorState = 'attached' | 'detached' | 'visible' | 'hidden';
+
+export interface PageWaitSpec {
+  kind: 'selector' | 'text' | 'predicate';
+  selector?: string;
+  state?: SelectorState;
+  text?: string;
+  /** JS expression evaluated in the page; the wait ends when it is truthy */
+  predicate?: string;
+  timeout: number;
+  /** 'mutation' re-checks on DOM changes; a number polls every N ms */
+  polling: 'mutation' | number;
+}
+
+export type PageWaitResult =
+  | { ok: true; matched: Record<string, unknown>; elapsedMs: number }
+  | { ok: false; error: string; timedOut?: boolean; elapsedMs: number };
+
+/**
+ * Runs in the page via chrome.scripting.executeScript.
+ * Must be self-contained: it is serialized and cannot see module scope.
+ * Predicates run in the MAIN world; everything else can run isolated.
+ */
+export function waitInPage(spec: PageWaitSpec, predicateKey: string): Promise<PageWaitResult> {
+  const startedAt = performance.now();
+  const elapsed = () => Math.round(performance.now() - startedAt);
+
+  const isVisible = (el: Element) => {
+    const style = window.getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden' || Number(style.opacity) === 0) {
+      return false;
+    }
+    const rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  };
+
+  const describe = (el: Element) => ({
+    tag: el.tagName.toLowerCase(),
+    id: el.id || undefined,
+    text: (el.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 80) || undefined
+  });
+
+  // Loaded by injectDomHelpers; predicates run in the main world without them
+  const queryFirst = (query: string): Element | null => globalThis.__geminiDom!.queryDeep(query)[0] ?? null;
+
+  let predicate: (() => unknown) | null = null;
+  if (spec.kind === 'predicate') {
+    const code = `window[${JSON.stringify(predicateKey)}] = function() { return (${spec.predicate}); };`;
+    const win = window as unknown as Record<string, unknown>;
+    const scriptEl = document.createElement('script');
+    scriptEl.textContent = code;
+    document.documentElement.appendChild(scriptEl);
+    scriptEl.remove();
+    try {
+      // Inline script blocked by CSP; fall back to eval where allowed
+      if (typeof win[predicateKey] !== 'function') {
+        new Function(code)();
+      }
+    } catch (e) {
+      return Promise.resolve({
+        ok: false,
+        error: e instanceof EvalError
+          ? 'Predicate blocked by the page Content-Security-Policy'
+          : `Invalid predicate: ${e instanceof Error ? e.message : String(e)}`,
+        elapsedMs: elapsed()
+      });
+    }
+    predicate = win[predicateKey] as () => unknown;
+    delete win[predicateKey];
+  }
+
+  // Returns what matched, or null while the condition doesn't hold yet
+  const check = (): Record<string, unknown> | null => {
+    switch (spec.kind) {
+      case 'selector': {
+        const el = queryFirst(spec.selector!);
+        switch (spec.state || 'attached') {
+          case 'attached':
+            return el ? { selector: spec.selector, state: 'attached', element: describe(el) } : null;
+          case 'detached':
+            return el ? null : { selector: spec.selector, state: 'detached' };
+          case 'visible':
+            return el && isVisible(el) ? { selector: spec.selector, state: 'visible', element: describe(el) } : null;
+          case 'hidden':
+            return !el || !isVisible(el) ? { selector: spec.selector, state: 'hidden' } : null;
+        }
+        return null;
+      }
+      case 'text': {
+        const scope = spec.selector ? queryFirst(spec.selector) : document.body;
+        const content = scope instanceof HTMLElement ? scope.innerText : scope?.textContent;
+        return content?.includes(spec.text!) ? { text: spec.text, selector: spec.selector } : null;
+      }
+      case 'predicate': {
+        const value = predicate!();
+        if (!value) return null;
+        let reported: unknown = value;
+        try {
+          reported = JSON.parse(JSON.stringify(value));
+        } catch {
+          reported = String(value);
+        }
+        return { predicate: spec.predicate, value: reported };
+      }
+    }
+  };
+
+  return new Promise((resolve) => {
+    let observer: MutationObserver | null = null;
+    let interval: ReturnType<typeof setInterval> | null = null;
+    let done = false;
+
+    const finish = (result: PageWaitResult) => {
+      if (done) return;
+      done = true;
+      observer?.disconnect();
+      if (interval) clearInterval(interval);
+      clearTimeout(timer);
+      resolve(result);
+    };
+
+    const evaluate = () => {
+      try {
+        const matched = check();
+        if (matched) {
+          finish({ ok: true, matched, elapsedMs: elapsed() });
+        }
+      } catch (e) {
+        finish({
+          ok: false,
+          error: e instanceof Error ? `${e.name}: ${e.message}` : String(e),
+          elapsedMs: elapsed()
+        });
+      }
+    };
+
+    const timer = setTimeout(() => {
+      finish({
+        ok: false,
+        error: `Timed out after ${spec.timeout}ms waiting for ${spec.kind}`,
+        timedOut: true,
+        elapsedMs: elapsed()
+      });
+    }, spec.timeout);
+
+    evaluate();
+    if (done) return;
+
+    if (spec.polling === 'mutation') {
+      observer = new MutationObserver(evaluate);
+      observer.observe(document.documentElement, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        characterData: true
+      });
+      // Visibility can change through stylesheets or layout without DOM mutations
+      interval = setInterval(evaluate, 250);
+    } else {
+      interval = setInterval(evaluate, Math.max(16, spec.polling));
+    }
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * Page DOM Helpers
+ * Injected into a frame's isolated world before the background's page
+ * functions run there. Those are serialized one by one and can't share
+ * code, so they reach these helpers through globalThis.__geminiDom.
+ */
+
+import { uniquePath } from './uniquePath';
+
+export interface DomHelpers {
+  shadowRootOf: (el: Element) => ShadowRoot | null;
+  queryDeep: (query: string) => Element[];
+  uniquePath: (el: Element) => string;
+}
+
+declare global {
+  // Set by dist/domHelpers.js in the isolated world of frames it was injected into
+  var __geminiDom: DomHelpers | undefined;
+}
+
+/**
+ * An element's shadow root, open or closed. Closed shadow roots are only
+ * reachable from the isolated world.
+ */
+function shadowRootOf(el: Element): ShadowRoot | null {
+  return el.shadowRoot ?? (typeof chrome !== 'undefined' && chrome.dom ? chrome.dom.openOrClosedShadowRoot(el as HTMLElement) : null);
+}
+
+/**
+ * Every element matching a selector, where "host >>> inner" matches inner
+ * inside the shadow root of each host. Throws on an invalid selector.
+ */
+function queryDeep(query: string): Element[] {
+  const [first, ...rest] = query.split('>>>').map(part => part.trim());
+  let matches = Array.from(document.querySelectorAll(first));
+  for (const part of rest) {
+    matches = matches.flatMap(host => Array.from(shadowRootOf(host)?.querySelectorAll(part) ?? []));
+  }
+  return matches;
+}
+
+globalThis.__geminiDom ??= { shadowRootOf, queryDeep, uniquePath };
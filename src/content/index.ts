@@ -4,6 +4,7 @@
  */
 
 import type { ContentScriptMessage, ContentScriptResponse } from '../types/messages';
+import { startPicker, stopPicker } from './picker';
 
 // Listen for messages from background script
 chrome.runtime.onMessage.addListener(
@@ -35,6 +36,12 @@ async function handleMessage(message: ContentScriptMessage): Promise<ContentScri
       return getSelection(message);
     case 'content:executeScript':
       return executeScript(message);
+    case 'content:startPicker':
+      startPicker();
+      return { type: 'content:response', requestId: message.requestId, success: true };
+    case 'content:stopPicker':
+      stopPicker();
+      return { type: 'content:response', requestId: message.requestId, success: true };
     default:
       return {
         type: 'content:response',
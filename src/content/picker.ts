@@ -0,0 +1,283 @@
+/**
+ * Element Picker
+ * Highlights the element under the cursor and reports the one clicked,
+ * with a selector that matches only that element
+ */
+
+import type { PickedElement, PickerResultMessage } from '../types/messages';
+
+interface PickerState {
+  host: HTMLElement;
+  highlight: HTMLElement;
+  label: HTMLElement;
+  cursorStyle: HTMLStyleElement;
+  current: Element | null;
+}
+
+// Attributes that usually identify an element across page loads, best first
+const STABLE_ATTRIBUTES = [
+  'data-testid', 'data-test-id', 'data-test', 'data-qa', 'data-cy',
+  'name', 'aria-label', 'placeholder', 'title', 'alt', 'href', 'type', 'role'
+];
+const REPORTED_ATTRIBUTES = ['id', 'class', 'name', 'type', 'role', 'aria-label', 'href', 'src', 'alt', 'title', 'placeholder', 'data-testid'];
+const MAX_TEXT_LENGTH = 200;
+// Events the page must not see while picking
+const BLOCKED_EVENTS = ['mousedown', 'mouseup', 'pointerdown', 'pointerup', 'dblclick', 'contextmenu'];
+
+let picker: PickerState | null = null;
+
+/**
+ * Start highlighting elements under the cursor; a click picks one and
+ * Escape cancels
+ */
+export function startPicker(): void {
+  if (picker) return;
+
+  const host = document.createElement('div');
+  host.setAttribute('data-gemini-picker', '');
+  const shadow = host.attachShadow({ mode: 'closed' });
+  shadow.innerHTML = `
+    <style>
+      .highlight {
+        position: fixed;
+        z-index: 2147483647;
+        pointer-events: none;
+        box-sizing: border-box;
+        border: 2px solid #0078d4;
+        background: rgba(0, 120, 212, 0.15);
+        display: none;
+      }
+      .label {
+        position: fixed;
+        z-index: 2147483647;
+        pointer-events: none;
+        max-width: 60vw;
+        padding: 2px 6px;
+        border-radius: 3px;
+        background: #0078d4;
+        color: #fff;
+        font: 12px/1.4 Menlo, Monaco, "Courier New", monospace;
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        display: none;
+      }
+    </style>
+    <div class="highlight"></div>
+    <div class="label"></div>
+  `;
+  document.documentElement.appendChild(host);
+
+  // Page styles can't be overridden from inside the shadow root
+  const cursorStyle = document.createElement('style');
+  cursorStyle.textContent = '* { cursor: crosshair !important; }';
+  document.documentElement.appendChild(cursorStyle);
+
+  picker = {
+    host,
+    highlight: shadow.querySelector('.highlight')!,
+    label: shadow.querySelector('.label')!,
+    cursorStyle,
+    current: null
+  };
+
+  window.addEventListener('mousemove', onMouseMove, true);
+  window.addEventListener('click', onClick, true);
+  window.addEventListener('keydown', onKeyDown, true);
+  window.addEventListener('scroll', onScroll, true);
+  for (const type of BLOCKED_EVENTS) {
+    window.addEventListener(type, blockEvent, true);
+  }
+}
+
+/**
+ * Remove the highlight and stop listening; reports a cancellation unless
+ * an element was picked
+ */
+export function stopPicker(element?: PickedElement): void {
+  if (!picker) return;
+
+  window.removeEventListener('mousemove', onMouseMove, true);
+  window.removeEventListener('click', onClick, true);
+  window.removeEventListener('keydown', onKeyDown, true);
+  window.removeEventListener('scroll', onScroll, true);
+  for (const type of BLOCKED_EVENTS) {
+    window.removeEventListener(type, blockEvent, true);
+  }
+  picker.host.remove();
+  picker.cursorStyle.remove();
+  picker = null;
+
+  const result: PickerResultMessage = { type: 'picker:result', element };
+  chrome.runtime.sendMessage(result).catch(() => {
+    // The side panel may have closed in the meantime
+  });
+}
+
+/**
+ * A selector that matches only this element. Prefers a stable id or
+ * attribute; otherwise walks up from the element, adding ancestors until
+ * the path is unique, and stops early at an ancestor with a unique id.
+ */
+export function buildSelector(element: Element): string {
+  const idSelector = stableIdSelector(element);
+  if (idSelector) {
+    return idSelector;
+  }
+
+  const tag = CSS.escape(element.localName);
+  for (const name of STABLE_ATTRIBUTES) {
+    const value = element.getAttribute(name);
+    if (!value || value.length > 80 || looksGenerated(value)) continue;
+    const selector = `${tag}[${name}="${CSS.escape(value)}"]`;
+    if (isUnique(selector, element)) {
+      return selector;
+    }
+  }
+
+  const parts: string[] = [];
+  let current: Element | null = element;
+  while (current && current !== document.documentElement) {
+    parts.unshift(pathSegment(current));
+    const path = parts.join(' > ');
+    if (isUnique(path, element)) {
+      return path;
+    }
+
+    const parent: Element | null = current.parentElement;
+    const anchor = parent ? stableIdSelector(parent) : null;
+    if (anchor && isUnique(`${anchor} > ${path}`, element)) {
+      return `${anchor} > ${path}`;
+    }
+    current = parent;
+  }
+  // Every segment carries its position, so the full path is unique
+  return parts.join(' > ');
+}
+
+function onMouseMove(event: MouseEvent): void {
+  const target = event.target;
+  if (!picker || !(target instanceof Element) || target === picker.host) return;
+  picker.current = target;
+  drawHighlight(target);
+}
+
+function onScroll(): void {
+  if (picker?.current) {
+    drawHighlight(picker.current);
+  }
+}
+
+function onClick(event: MouseEvent): void {
+  blockEvent(event);
+  const target = event.target;
+  if (!picker || !(target instanceof Element) || target === picker.host) return;
+  stopPicker(describeElement(target));
+}
+
+function onKeyDown(event: KeyboardEvent): void {
+  if (event.key === 'Escape') {
+    blockEvent(event);
+    stopPicker();
+  }
+}
+
+function blockEvent(event: Event): void {
+  event.preventDefault();
+  event.stopPropagation();
+  event.stopImmediatePropagation();
+}
+
+/**
+ * Frame the element and label it with its tag and size
+ */
+function drawHighlight(element: Element): void {
+  if (!picker) return;
+  const rect = element.getBoundingClientRect();
+  const { highlight, label } = picker;
+
+  highlight.style.display = 'block';
+  highlight.style.left = `${rect.left}px`;
+  highlight.style.top = `${rect.top}px`;
+  highlight.style.width = `${rect.width}px`;
+  highlight.style.height = `${rect.height}px`;
+
+  const classes = Array.from(element.classList).slice(0, 2).map(name => `.${name}`).join('');
+  label.textContent = `${element.localName}${element.id ? `#${element.id}` : ''}${classes} · ${Math.round(rect.width)}×${Math.round(rect.height)}`;
+  label.style.display = 'block';
+  label.style.left = `${Math.max(0, rect.left)}px`;
+  // Above the element, or inside its top edge when there's no room
+  label.style.top = rect.top >= 22 ? `${rect.top - 22}px` : `${Math.max(0, rect.top) + 2}px`;
+}
+
+function describeElement(element: Element): PickedElement {
+  const rect = element.getBoundingClientRect();
+  const attributes: Record<string, string> = {};
+  for (const name of REPORTED_ATTRIBUTES) {
+    const value = element.getAttribute(name);
+    if (value) {
+      attributes[name] = value.slice(0, MAX_TEXT_LENGTH);
+    }
+  }
+
+  return {
+    selector: buildSelector(element),
+    tag: element.localName,
+    text: (element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH),
+    attributes,
+    box: {
+      x: Math.round(rect.left + window.scrollX),
+      y: Math.round(rect.top + window.scrollY),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height)
+    },
+    url: window.location.href,
+    title: document.title
+  };
+}
+
+function stableIdSelector(element: Element): string | null {
+  if (!element.id || looksGenerated(element.id)) return null;
+  const selector = `#${CSS.escape(element.id)}`;
+  return isUnique(selector, element) ? selector : null;
+}
+
+/**
+ * Tag plus up to two stable classes, with :nth-of-type when a sibling
+ * would match as well
+ */
+function pathSegment(element: Element): string {
+  const classes = Array.from(element.classList)
+    .filter(name => !looksGenerated(name))
+    .slice(0, 2)
+    .map(name => `.${CSS.escape(name)}`)
+    .join('');
+  const segment = `${CSS.escape(element.localName)}${classes}`;
+
+  const parent = element.parentElement;
+  if (!parent) return segment;
+  const siblings = Array.from(parent.children).filter(child => child.localName === element.localName);
+  if (siblings.length === 1) return segment;
+  if (siblings.filter(child => child.matches(segment)).length === 1) return segment;
+  return `${segment}:nth-of-type(${siblings.indexOf(element) + 1})`;
+}
+
+/**
+ * Ids and classes produced by frameworks and CSS-in-JS change between
+ * builds, so selectors avoid them
+ */
+function looksGenerated(value: string): boolean {
+  return /\d{3,}/.test(value)
+    || /^(css|sc|jsx|jss|emotion|svelte|ng-tns|ember)-/i.test(value)
+    || /[a-z]\d+[a-z]+\d/i.test(value)
+    || /^[:_]r[0-9a-z]*:?$/.test(value);
+}
+
+function isUnique(selector: string, element: Element): boolean {
+  try {
+    const matches = document.querySelectorAll(selector);
+    return matches.length === 1 && matches[0] === element;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Unique Paths
+ * Builds a selector that matches only one element, for turning refs back
+ * into selectors. getDom refs use it in the isolated world; accessibility
+ * refs run its source in the main world through the debugger.
+ */
+
+/**
+ * A selector for this element from the nearest ancestor with a unique id,
+ * stepping out of shadow roots with ">>>". Must be self-contained: the
+ * debugger runs it from its source.
+ */
+export function uniquePath(el: Element): string {
+  const scope = el.getRootNode() as Document | ShadowRoot;
+  const host = scope instanceof ShadowRoot ? `${uniquePath(scope.host)} >>> ` : '';
+  if (el.id && scope.getElementById(el.id) === el) {
+    return `${host}#${CSS.escape(el.id)}`;
+  }
+  const tag = CSS.escape(el.localName);
+  const parent = el.parentElement;
+  if (parent) {
+    return `${uniquePath(parent)} > ${tag}:nth-child(${Array.from(parent.children).indexOf(el) + 1})`;
+  }
+  return scope instanceof ShadowRoot
+    ? `${host}${tag}:nth-child(${Array.from(scope.children).indexOf(el) + 1})`
+    : tag;
+}
@@ -0,0 +1,271 @@
+/**
+ * Options Page
+ * Edits the backend connection profiles and the site policy stored in
+ * chrome.storage.sync
+ */
+
+import {
+  DEFAULT_PROFILE,
+  loadConnectionSettings,
+  saveConnectionSettings,
+  onConnectionSettingsChanged,
+  profileUrl,
+  validateProfile,
+  type ConnectionProfile,
+  type ConnectionSettings,
+} from '../shared/settings';
+import {
+  loadSitePolicy,
+  saveSitePolicy,
+  onSitePolicyChanged,
+  normalizeDomain,
+  type SitePolicy,
+} from '../shared/policy';
+
+let settings: ConnectionSettings;
+let policy: SitePolicy;
+// Profile shown in the form; may be a new, unsaved profile
+let selectedProfileId: string;
+
+function getInput(id: string): HTMLInputElement {
+  return document.getElementById(id) as HTMLInputElement;
+}
+
+/**
+ * Render the profile dropdown
+ */
+function renderProfileList(): void {
+  const select = document.getElementById('profile-select') as HTMLSelectElement;
+  select.innerHTML = '';
+
+  for (const profile of settings.profiles) {
+    const option = document.createElement('option');
+    option.value = profile.id;
+    option.textContent = profile.id === settings.activeProfileId
+      ? `${profile.name} (active)`
+      : profile.name;
+    select.appendChild(option);
+  }
+
+  select.value = selectedProfileId;
+  (document.getElementById('delete-profile-btn') as HTMLButtonElement).disabled =
+    settings.profiles.length <= 1;
+}
+
+/**
+ * Fill the form with a profile's values
+ */
+function renderProfileForm(profile: ConnectionProfile): void {
+  getInput('profile-name').value = profile.name;
+  getInput('profile-host').value = profile.host;
+  getInput('profile-port').value = String(profile.port);
+  getInput('profile-secure').checked = profile.secure;
+  getInput('profile-max-attempts').value = String(profile.maxReconnectAttempts);
+  getInput('profile-delay').value = String(profile.reconnectDelay);
+
+  const isActive = profile.id === settings.activeProfileId;
+  const activateButton = document.getElementById('activate-btn') as HTMLButtonElement;
+  activateButton.disabled = isActive;
+  activateButton.textContent = isActive ? 'Active profile' : 'Use this profile';
+}
+
+/**
+ * Read the form into a profile object
+ */
+function readProfileForm(): ConnectionProfile {
+  return {
+    id: selectedProfileId,
+    name: getInput('profile-name').value.trim(),
+    host: getInput('profile-host').value.trim(),
+    port: Number(getInput('profile-port').value),
+    secure: getInput('profile-secure').checked,
+    maxReconnectAttempts: Number(getInput('profile-max-attempts').value),
+    reconnectDelay: Number(getInput('profile-delay').value)
+  };
+}
+
+function showStatus(message: string, isError = false): void {
+  const status = document.getElementById('form-status');
+  if (status) {
+    status.textContent = message;
+    status.classList.toggle('error', isError);
+  }
+}
+
+function selectedProfile(): ConnectionProfile | undefined {
+  return settings.profiles.find(p => p.id === selectedProfileId);
+}
+
+function render(): void {
+  renderProfileList();
+  renderProfileForm(selectedProfile() || settings.profiles[0]);
+}
+
+/**
+ * Save the form into the selected profile
+ */
+async function saveProfile(): Promise<void> {
+  const profile = readProfileForm();
+  const problem = validateProfile(profile);
+  if (problem) {
+    showStatus(problem, true);
+    return;
+  }
+
+  settings.profiles = settings.profiles.map(p => (p.id === profile.id ? profile : p));
+  await saveConnectionSettings(settings);
+  render();
+  showStatus(`Saved "${profile.name}" (${profileUrl(profile)})`);
+}
+
+/**
+ * Render one site policy list with a Remove button per entry
+ */
+function renderPolicyList(listId: string, entries: string[], emptyText: string, key: keyof SitePolicy): void {
+  const list = document.getElementById(listId);
+  if (!list) return;
+  list.innerHTML = '';
+
+  if (entries.length === 0) {
+    const empty = document.createElement('li');
+    empty.className = 'empty';
+    empty.textContent = emptyText;
+    list.appendChild(empty);
+    return;
+  }
+
+  for (const entry of entries) {
+    const item = document.createElement('li');
+    const label = document.createElement('span');
+    label.textContent = entry;
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.className = 'danger';
+    remove.textContent = 'Remove';
+    remove.addEventListener('click', async () => {
+      policy = { ...policy, [key]: policy[key].filter(e => e !== entry) };
+      await saveSitePolicy(policy);
+      renderPolicy();
+      showPolicyStatus(`Removed ${entry}`);
+    });
+    item.append(label, remove);
+    list.appendChild(item);
+  }
+}
+
+function renderPolicy(): void {
+  renderPolicyList('denylist', policy.denylist, 'No sites denied', 'denylist');
+  renderPolicyList('always-allow', policy.alwaysAllow, 'Sites you always allow from the side panel appear here', 'alwaysAllow');
+}
+
+function showPolicyStatus(message: string, isError = false): void {
+  const status = document.getElementById('policy-status');
+  if (status) {
+    status.textContent = message;
+    status.classList.toggle('error', isError);
+  }
+}
+
+/**
+ * Add the typed domain to the denylist
+ */
+async function addDeniedDomain(): Promise<void> {
+  const input = getInput('denylist-input');
+  const domain = normalizeDomain(input.value);
+  if (!domain) {
+    showPolicyStatus(`"${input.value}" is not a domain`, true);
+    return;
+  }
+  if (!policy.denylist.includes(domain)) {
+    policy = { ...policy, denylist: [...policy.denylist, domain] };
+    await saveSitePolicy(policy);
+  }
+  input.value = '';
+  renderPolicy();
+  showPolicyStatus(`Denied ${domain} and its subdomains`);
+}
+
+/**
+ * Set up event listeners
+ */
+function setupEventListeners(): void {
+  document.getElementById('profile-select')?.addEventListener('change', (event) => {
+    selectedProfileId = (event.target as HTMLSelectElement).value;
+    render();
+    showStatus('');
+  });
+
+  document.getElementById('new-profile-btn')?.addEventListener('click', async () => {
+    const profile: ConnectionProfile = {
+      ...DEFAULT_PROFILE,
+      id: crypto.randomUUID(),
+      name: `Profile ${settings.profiles.length + 1}`
+    };
+    settings.profiles.push(profile);
+    selectedProfileId = profile.id;
+    await saveConnectionSettings(settings);
+    render();
+    showStatus('Created new profile');
+  });
+
+  document.getElementById('delete-profile-btn')?.addEventListener('click', async () => {
+    const profile = selectedProfile();
+    if (!profile || settings.profiles.length <= 1) return;
+    if (!confirm(`Delete profile "${profile.name}"?`)) return;
+
+    settings.profiles = settings.profiles.filter(p => p.id !== profile.id);
+    if (settings.activeProfileId === profile.id) {
+      settings.activeProfileId = settings.profiles[0].id;
+    }
+    selectedProfileId = settings.activeProfileId;
+    await saveConnectionSettings(settings);
+    render();
+    showStatus(`Deleted "${profile.name}"`);
+  });
+
+  document.getElementById('profile-form')?.addEventListener('submit', (event) => {
+    event.preventDefault();
+    saveProfile().catch((error) => {
+      showStatus(error instanceof Error ? error.message : 'Failed to save profile', true);
+    });
+  });
+
+  document.getElementById('activate-btn')?.addEventListener('click', async () => {
+    settings.activeProfileId = selectedProfileId;
+    await saveConnectionSettings(settings);
+    render();
+    showStatus(`Now using "${selectedProfile()?.name}"`);
+  });
+
+  document.getElementById('denylist-form')?.addEventListener('submit', (event) => {
+    event.preventDefault();
+    addDeniedDomain().catch((error) => {
+      showPolicyStatus(error instanceof Error ? error.message : 'Failed to save site policy', true);
+    });
+  });
+
+  // Origins allowed from the side panel show up here live
+  onSitePolicyChanged((updated) => {
+    policy = updated;
+    renderPolicy();
+  });
+
+  // Keep in sync with edits made from another options tab or device
+  onConnectionSettingsChanged((updated) => {
+    settings = updated;
+    if (!selectedProfile()) {
+      selectedProfileId = settings.activeProfileId;
+    }
+    renderProfileList();
+  });
+}
+
+// Initialize when DOM is ready
+document.addEventListener('DOMContentLoaded', async () => {
+  settings = await loadConnectionSettings();
+  selectedProfileId = settings.activeProfileId;
+  render();
+  policy = await loadSitePolicy();
+  renderPolicy();
+  setupEventListeners();
+});
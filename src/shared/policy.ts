@@ -0,0 +1,156 @@
+/**
+ * Site Policy
+ * Which sites browser actions may touch and where mutating actions run
+ * without asking, stored in chrome.storage.sync and shared by the
+ * background worker, the options page and the side panel
+ */
+
+import type { BrowserAction } from '../types/messages';
+
+export interface SitePolicy {
+  /** Origins (e.g. "https://example.com") where mutating actions skip the prompt */
+  alwaysAllow: string[];
+  /** Domains, including their subdomains, that no action may touch */
+  denylist: string[];
+}
+
+export type ActionRisk = 'read' | 'mutate';
+
+const POLICY_STORAGE_KEY = 'sitePolicy';
+
+export const DEFAULT_POLICY: SitePolicy = {
+  alwaysAllow: [],
+  denylist: []
+};
+
+/**
+ * Whether each action only observes the page or can change it.
+ * A Record so the compiler makes every new action pick a side.
+ */
+export const ACTION_RISK: Record<BrowserAction, ActionRisk> = {
+  getDom: 'read',
+  getSelection: 'read',
+  getReadableContent: 'read',
+  getUrl: 'read',
+  screenshot: 'read',
+  getConsoleLogs: 'read',
+  getNetworkLog: 'read',
+  getAccessibilityTree: 'read',
+  hover: 'read',
+  scroll: 'read',
+  waitFor: 'read',
+  listDomChanges: 'read',
+  listFrames: 'read',
+  executeScript: 'mutate',
+  modifyDom: 'mutate',
+  undoDomChange: 'mutate',
+  revertAll: 'mutate',
+  click: 'mutate',
+  type: 'mutate',
+  press: 'mutate',
+  navigate: 'mutate',
+  back: 'mutate',
+  forward: 'mutate',
+  reload: 'mutate',
+  openTab: 'mutate',
+  closeTab: 'mutate'
+};
+
+/**
+ * Classify a request. waitFor predicates are arbitrary page JavaScript,
+ * so they count as mutating just like executeScript.
+ */
+export function classifyAction(action: BrowserAction, params?: Record<string, unknown>): ActionRisk {
+  if (action === 'waitFor' && params?.predicate) {
+    return 'mutate';
+  }
+  return ACTION_RISK[action] ?? 'mutate';
+}
+
+/**
+ * Load the site policy, falling back to an empty one
+ */
+export async function loadSitePolicy(): Promise<SitePolicy> {
+  const stored = await chrome.storage.sync.get(POLICY_STORAGE_KEY);
+  return normalizePolicy(stored[POLICY_STORAGE_KEY]);
+}
+
+/**
+ * Save the site policy; listeners pick the change up via storage events
+ */
+export async function saveSitePolicy(policy: SitePolicy): Promise<void> {
+  await chrome.storage.sync.set({ [POLICY_STORAGE_KEY]: normalizePolicy(policy) });
+}
+
+/**
+ * Call back whenever the site policy changes in any extension context
+ */
+export function onSitePolicyChanged(callback: (policy: SitePolicy) => void): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'sync' && changes[POLICY_STORAGE_KEY]) {
+      callback(normalizePolicy(changes[POLICY_STORAGE_KEY].newValue));
+    }
+  });
+}
+
+/**
+ * Find the denylist entry covering a URL's host, if any
+ */
+export function deniedDomainFor(policy: SitePolicy, url: string): string | null {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+  return policy.denylist.find(domain => host === domain || host.endsWith(`.${domain}`)) ?? null;
+}
+
+/**
+ * Whether mutating actions may run on a URL's origin without a prompt
+ */
+export function isAlwaysAllowed(policy: SitePolicy, url: string): boolean {
+  const origin = originOf(url);
+  return origin !== null && policy.alwaysAllow.includes(origin);
+}
+
+/**
+ * Origin of a URL, or null for URLs without a meaningful one
+ */
+export function originOf(url: string): string | null {
+  try {
+    const origin = new URL(url).origin;
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turn user input such as "https://Bank.example.com/login" into "bank.example.com".
+ * Returns null when the input isn't a usable domain.
+ */
+export function normalizeDomain(input: string): string | null {
+  const trimmed = input.trim().toLowerCase().replace(/^\*\./, '');
+  if (!trimmed) return null;
+  try {
+    const host = new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).hostname;
+    return host.replace(/\.$/, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fill in defaults for missing or malformed stored policy
+ */
+function normalizePolicy(value: unknown): SitePolicy {
+  const raw = value as Partial<SitePolicy> | undefined;
+  const strings = (list: unknown) =>
+    Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [];
+
+  return {
+    alwaysAllow: [...new Set(strings(raw?.alwaysAllow))],
+    denylist: [...new Set(strings(raw?.denylist).map(domain => domain.toLowerCase()))]
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Connection Settings
+ * Named backend connection profiles stored in chrome.storage.sync,
+ * shared by the background worker, the options page and the side panel
+ */
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  /** Use wss:// instead of ws:// */
+  secure: boolean;
+  maxReconnectAttempts: number;
+  /** Delay between reconnect attempts in milliseconds */
+  reconnectDelay: number;
+}
+
+export interface ConnectionSettings {
+  activeProfileId: string;
+  profiles: ConnectionProfile[];
+}
+
+const SETTINGS_STORAGE_KEY = 'connectionSettings';
+
+export const DEFAULT_PROFILE: ConnectionProfile = {
+  id: 'default',
+  name: 'Local',
+  host: 'localhost',
+  port: 3456,
+  secure: false,
+  maxReconnectAttempts: 10,
+  reconnectDelay: 2000
+};
+
+const DEFAULT_SETTINGS: ConnectionSettings = {
+  activeProfileId: DEFAULT_PROFILE.id,
+  profiles: [DEFAULT_PROFILE]
+};
+
+/**
+ * Load connection settings, falling back to the built-in local profile
+ */
+export async function loadConnectionSettings(): Promise<ConnectionSettings> {
+  const stored = await chrome.storage.sync.get(SETTINGS_STORAGE_KEY);
+  return normalizeSettings(stored[SETTINGS_STORAGE_KEY]);
+}
+
+/**
+ * Save connection settings; listeners pick the change up via storage events
+ */
+export async function saveConnectionSettings(settings: ConnectionSettings): Promise<void> {
+  await chrome.storage.sync.set({ [SETTINGS_STORAGE_KEY]: normalizeSettings(settings) });
+}
+
+/**
+ * Call back whenever connection settings change in any extension context
+ */
+export function onConnectionSettingsChanged(callback: (settings: ConnectionSettings) => void): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'sync' && changes[SETTINGS_STORAGE_KEY]) {
+      callback(normalizeSettings(changes[SETTINGS_STORAGE_KEY].newValue));
+    }
+  });
+}
+
+/**
+ * Get the profile currently selected for connecting
+ */
+export function getActiveProfile(settings: ConnectionSettings): ConnectionProfile {
+  return settings.profiles.find(p => p.id === settings.activeProfileId) || settings.profiles[0];
+}
+
+/**
+ * WebSocket URL for a profile
+ */
+export function profileUrl(profile: ConnectionProfile): string {
+  return `${profile.secure ? 'wss' : 'ws'}://${profile.host}:${profile.port}`;
+}
+
+/**
+ * Check a profile for values the background can't connect with.
+ * Returns a human-readable problem, or null when the profile is usable.
+ */
+export function validateProfile(profile: ConnectionProfile): string | null {
+  if (!profile.name.trim()) {
+    return 'Profile name is required';
+  }
+  if (!profile.host.trim() || /[\s/]/.test(profile.host)) {
+    return 'Host must be a hostname or IP address';
+  }
+  if (!Number.isInteger(profile.port) || profile.port < 1 || profile.port > 65535) {
+    return 'Port must be between 1 and 65535';
+  }
+  if (!Number.isInteger(profile.maxReconnectAttempts) || profile.maxReconnectAttempts < 0) {
+    return 'Reconnect attempts must be zero or more';
+  }
+  if (!Number.isFinite(profile.reconnectDelay) || profile.reconnectDelay < 100) {
+    return 'Reconnect delay must be at least 100ms';
+  }
+  return null;
+}
+
+/**
+ * Fill in defaults for missing or malformed stored settings
+ */
+function normalizeSettings(value: unknown): ConnectionSettings {
+  const raw = value as Partial<ConnectionSettings> | undefined;
+  if (!raw || !Array.isArray(raw.profiles) || raw.profiles.length === 0) {
+    return structuredClone(DEFAULT_SETTINGS);
+  }
+
+  const profiles = raw.profiles.map(p => ({ ...DEFAULT_PROFILE, ...p }));
+  const activeProfileId = profiles.some(p => p.id === raw.activeProfileId)
+    ? raw.activeProfileId!
+    : profiles[0].id;
+
+  return { activeProfileId, profiles };
+}
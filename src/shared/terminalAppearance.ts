@@ -0,0 +1,217 @@
+/**
+ * Terminal Appearance
+ * Font, cursor, scrollback and color theme of the side panel terminals,
+ * stored in chrome.storage.sync so every open side panel follows changes
+ */
+
+import type { ITheme } from '@xterm/xterm';
+
+export type TerminalCursorStyle = 'block' | 'underline' | 'bar';
+
+/** 'system' follows prefers-color-scheme; 'custom' uses an imported theme */
+export type TerminalThemeChoice = 'system' | 'dark' | 'light' | 'custom';
+
+export interface TerminalAppearance {
+  fontFamily: string;
+  fontSize: number;
+  lineHeight: number;
+  cursorStyle: TerminalCursorStyle;
+  cursorBlink: boolean;
+  /** Lines kept above the viewport */
+  scrollback: number;
+  theme: TerminalThemeChoice;
+  /** Imported theme, used when theme is 'custom' */
+  customTheme: ITheme | null;
+}
+
+const APPEARANCE_STORAGE_KEY = 'terminalAppearance';
+
+export const DARK_THEME: ITheme = {
+  background: '#1e1e1e',
+  foreground: '#cccccc',
+  cursor: '#ffffff',
+  cursorAccent: '#1e1e1e',
+  selectionBackground: '#264f78',
+  selectionForeground: '#ffffff',
+  black: '#1e1e1e',
+  red: '#f14c4c',
+  green: '#4ec9b0',
+  yellow: '#dcdcaa',
+  blue: '#569cd6',
+  magenta: '#c586c0',
+  cyan: '#9cdcfe',
+  white: '#d4d4d4',
+  brightBlack: '#808080',
+  brightRed: '#f14c4c',
+  brightGreen: '#4ec9b0',
+  brightYellow: '#dcdcaa',
+  brightBlue: '#569cd6',
+  brightMagenta: '#c586c0',
+  brightCyan: '#9cdcfe',
+  brightWhite: '#ffffff'
+};
+
+export const LIGHT_THEME: ITheme = {
+  background: '#ffffff',
+  foreground: '#333333',
+  cursor: '#000000',
+  cursorAccent: '#ffffff',
+  selectionBackground: '#add6ff',
+  selectionForeground: '#000000',
+  black: '#000000',
+  red: '#cd3131',
+  green: '#00bc00',
+  yellow: '#949800',
+  blue: '#0451a5',
+  magenta: '#bc05bc',
+  cyan: '#0598bc',
+  white: '#555555',
+  brightBlack: '#666666',
+  brightRed: '#cd3131',
+  brightGreen: '#14ce14',
+  brightYellow: '#b5ba00',
+  brightBlue: '#0451a5',
+  brightMagenta: '#bc05bc',
+  brightCyan: '#0598bc',
+  brightWhite: '#a5a5a5'
+};
+
+export const DEFAULT_APPEARANCE: TerminalAppearance = {
+  fontFamily: '"Cascadia Code", "Fira Code", Menlo, Monaco, "Courier New", monospace',
+  fontSize: 13,
+  lineHeight: 1,
+  cursorStyle: 'block',
+  cursorBlink: true,
+  scrollback: 10000,
+  theme: 'dark',
+  customTheme: null
+};
+
+const CURSOR_STYLES: TerminalCursorStyle[] = ['block', 'underline', 'bar'];
+const THEME_CHOICES: TerminalThemeChoice[] = ['system', 'dark', 'light', 'custom'];
+
+const THEME_COLOR_KEYS = [
+  'background', 'foreground', 'cursor', 'cursorAccent',
+  'selectionBackground', 'selectionForeground', 'selectionInactiveBackground',
+  'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
+  'brightBlack', 'brightRed', 'brightGreen', 'brightYellow',
+  'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite'
+] as const;
+
+// Windows Terminal scheme names for the same colors
+const THEME_KEY_ALIASES: Record<string, (typeof THEME_COLOR_KEYS)[number]> = {
+  cursorColor: 'cursor',
+  selectionBackgroundColor: 'selectionBackground',
+  purple: 'magenta',
+  brightPurple: 'brightMagenta'
+};
+
+/**
+ * Load terminal appearance, falling back to the defaults
+ */
+export async function loadTerminalAppearance(): Promise<TerminalAppearance> {
+  const stored = await chrome.storage.sync.get(APPEARANCE_STORAGE_KEY);
+  return normalizeAppearance(stored[APPEARANCE_STORAGE_KEY]);
+}
+
+/**
+ * Save terminal appearance; open side panels pick the change up via storage events
+ */
+export async function saveTerminalAppearance(appearance: TerminalAppearance): Promise<void> {
+  await chrome.storage.sync.set({ [APPEARANCE_STORAGE_KEY]: normalizeAppearance(appearance) });
+}
+
+/**
+ * Call back whenever terminal appearance changes in any extension context
+ */
+export function onTerminalAppearanceChanged(callback: (appearance: TerminalAppearance) => void): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'sync' && changes[APPEARANCE_STORAGE_KEY]) {
+      callback(normalizeAppearance(changes[APPEARANCE_STORAGE_KEY].newValue));
+    }
+  });
+}
+
+/**
+ * Colors to render with, given whether the system currently prefers dark
+ */
+export function resolveTheme(appearance: TerminalAppearance, prefersDark: boolean): ITheme {
+  switch (appearance.theme) {
+    case 'light':
+      return LIGHT_THEME;
+    case 'system':
+      return prefersDark ? DARK_THEME : LIGHT_THEME;
+    case 'custom':
+      // Colors the import left out come from the dark preset
+      return { ...DARK_THEME, ...appearance.customTheme };
+    default:
+      return DARK_THEME;
+  }
+}
+
+/**
+ * Parse an imported theme file. Accepts xterm.js theme objects and
+ * Windows Terminal color schemes; throws when no usable color is found.
+ */
+export function parseThemeJson(text: string): ITheme {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Theme file is not valid JSON');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Theme must be a JSON object of colors');
+  }
+
+  const theme: ITheme = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const themeKey = THEME_KEY_ALIASES[key] ?? key;
+    if ((THEME_COLOR_KEYS as readonly string[]).includes(themeKey) && isColor(value)) {
+      theme[themeKey as (typeof THEME_COLOR_KEYS)[number]] = value;
+    }
+  }
+  if (Object.keys(theme).length === 0) {
+    throw new Error('Theme has no recognized colors (expected keys like "background" and "red")');
+  }
+  return theme;
+}
+
+/**
+ * Whether a value is a CSS color xterm.js can parse
+ */
+function isColor(value: unknown): value is string {
+  return typeof value === 'string' && /^(#[0-9a-f]{3,8}|rgba?\([\d\s.,%]+\))$/i.test(value.trim());
+}
+
+/**
+ * Clamp a number into a range, using a fallback when it isn't a number
+ */
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, value))
+    : fallback;
+}
+
+/**
+ * Fill in defaults for missing or malformed stored appearance
+ */
+function normalizeAppearance(value: unknown): TerminalAppearance {
+  const raw = (value || {}) as Partial<TerminalAppearance>;
+  const customTheme = raw.customTheme && typeof raw.customTheme === 'object' ? raw.customTheme : null;
+  const theme = THEME_CHOICES.includes(raw.theme!) ? raw.theme! : DEFAULT_APPEARANCE.theme;
+
+  return {
+    fontFamily: typeof raw.fontFamily === 'string' && raw.fontFamily.trim()
+      ? raw.fontFamily.trim()
+      : DEFAULT_APPEARANCE.fontFamily,
+    fontSize: Math.round(clamp(raw.fontSize, 8, 32, DEFAULT_APPEARANCE.fontSize)),
+    lineHeight: clamp(raw.lineHeight, 1, 2, DEFAULT_APPEARANCE.lineHeight),
+    cursorStyle: CURSOR_STYLES.includes(raw.cursorStyle!) ? raw.cursorStyle! : DEFAULT_APPEARANCE.cursorStyle,
+    cursorBlink: typeof raw.cursorBlink === 'boolean' ? raw.cursorBlink : DEFAULT_APPEARANCE.cursorBlink,
+    scrollback: Math.round(clamp(raw.scrollback, 0, 100000, DEFAULT_APPEARANCE.scrollback)),
+    // A custom choice without an imported theme falls back to the default
+    theme: theme === 'custom' && !customTheme ? DEFAULT_APPEARANCE.theme : theme,
+    customTheme
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * File Attachments
+ * Sends files dropped or pasted into the side panel to a session as base64
+ * chunks, one runtime message per chunk, for the background to forward
+ */
+
+import type { TerminalAttachmentMessage } from '../types/messages';
+
+/** Largest file accepted, in bytes */
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024;
+/** Bytes per chunk, before base64 encoding */
+const CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Send a file to a session chunk by chunk. The background answers each
+ * chunk once it's on the socket, which paces the transfer; the first
+ * failure rejects.
+ */
+export async function sendAttachment(
+  file: File,
+  sessionId: string,
+  onProgress: (sentBytes: number) => void
+): Promise<void> {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`Larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+  }
+
+  const attachmentId = crypto.randomUUID();
+  const chunkCount = Math.max(1, Math.ceil(file.size / CHUNK_SIZE));
+  for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+    const start = chunkIndex * CHUNK_SIZE;
+    const bytes = new Uint8Array(await file.slice(start, start + CHUNK_SIZE).arrayBuffer());
+    const message: TerminalAttachmentMessage = {
+      type: 'terminal:attachment',
+      sessionId,
+      attachmentId,
+      name: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      chunkIndex,
+      chunkCount,
+      data: toBase64(bytes)
+    };
+
+    const response = await chrome.runtime.sendMessage(message) as { success: boolean; error?: string } | undefined;
+    if (!response?.success) {
+      throw new Error(response?.error || 'The background did not accept the file');
+    }
+    onProgress(Math.min(file.size, start + bytes.length));
+  }
+}
+
+/**
+ * Give clipboard images, which all arrive as "image.png", a distinct name
+ */
+export function namePastedFile(file: File, pastedAt: Date): File {
+  if (file.name && file.name !== 'image.png') {
+    return file;
+  }
+  const stamp = pastedAt.toISOString().replace(/[:.]/g, '-').replace('T', '_').slice(0, 19);
+  const extension = file.type.split('/')[1]?.replace(/\W.*$/, '') || 'bin';
+  return new File([file], `pasted-${stamp}.${extension}`, { type: file.type });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Spread in slices; one call with every byte overflows the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
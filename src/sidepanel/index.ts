@@ -1,137 +1,862 @@
 /**
  * Side Panel - Terminal UI
- * Uses xterm.js to render the terminal interface
+ * Uses xterm.js to render the terminal interface, one tab per session
  */
 
 import { Terminal } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { WebLinksAddon } from '@xterm/addon-web-links';
-import type { WebSocketMessage, ConnectionStatusMessage } from '../types/messages';
+import { SearchAddon, type ISearchOptions } from '@xterm/addon-search';
+import type {
+  WebSocketMessage,
+  ExtensionMessage,
+  ConnectionStatusMessage,
+  WorkerRestartedMessage,
+  DomChangeEntry,
+  DomChangesRequestMessage,
+  DomChangesResponse,
+  ApprovalRequestMessage,
+  ApprovalResponseMessage,
+  AuditEntry,
+  AuditLogResponse,
+  TerminalSessionInfo,
+  TerminalOutputMessage,
+  TerminalReplayResponse,
+  PendingContext,
+  PickedElement,
+  PickerResultMessage,
+} from '../types/messages';
+import {
+  DEFAULT_APPEARANCE,
+  loadTerminalAppearance,
+  saveTerminalAppearance,
+  onTerminalAppearanceChanged,
+  resolveTheme,
+  parseThemeJson,
+  type TerminalAppearance,
+} from '../shared/terminalAppearance';
+import {
+  transcriptText,
+  transcriptHtml,
+  transcriptMarkdown,
+  downloadTranscript,
+  type TranscriptFormat,
+} from './transcript';
+import { sendAttachment, namePastedFile } from './attachments';
+import {
+  loadConnectionSettings,
+  onConnectionSettingsChanged,
+  getActiveProfile,
+  type ConnectionSettings,
+} from '../shared/settings';
 
-// Terminal instance
-let terminal: Terminal;
-let fitAddon: FitAddon;
+// One xterm instance per terminal session, each with its own tab
+interface TerminalSession {
+  id: string;
+  name: string;
+  terminal: Terminal;
+  fitAddon: FitAddon;
+  searchAddon: SearchAddon;
+  element: HTMLElement;
+  tab: HTMLElement;
+}
+
+const sessions = new Map<string, TerminalSession>();
+let activeSessionId: string | null = null;
+// Sessions this panel opened that the background hasn't announced yet
+const pendingOpens = new Set<string>();
+// Live output held back while a session's scrollback is being replayed
+const replayQueues = new Map<string, TerminalOutputMessage[]>();
 
 // Connection state
 let isConnected = false;
 
+// Tab whose DOM changes are shown; null while the panel is closed
+let domChangesTabId: number | null = null;
+
+// Audit log entries, oldest first; loaded when the audit view opens
+let auditEntries: AuditEntry[] = [];
+const MAX_AUDIT_ROWS = 500;
+
+// Context menu captures waiting for a connection and a session
+let heldContexts: PendingContext[] = [];
+
+// Attachments go out one at a time so their chunks don't compete
+let attachmentQueue: Promise<void> = Promise.resolve();
+
+// Search bar toggles
+let searchCaseSensitive = false;
+let searchRegex = false;
+
 // Debounce resize
 let resizeTimeout: ReturnType<typeof setTimeout> | null = null;
 
+// Terminal appearance; loaded before the first session view is created
+let appearance: TerminalAppearance = DEFAULT_APPEARANCE;
+const darkScheme = window.matchMedia('(prefers-color-scheme: dark)');
+
 /**
- * Initialize the terminal
+ * xterm options that follow the appearance settings
  */
-function initTerminal(): void {
+function appearanceOptions(): ConstructorParameters<typeof Terminal>[0] {
+  return {
+    cursorBlink: appearance.cursorBlink,
+    cursorStyle: appearance.cursorStyle,
+    fontSize: appearance.fontSize,
+    fontFamily: appearance.fontFamily,
+    lineHeight: appearance.lineHeight,
+    theme: resolveTheme(appearance, darkScheme.matches),
+    scrollback: appearance.scrollback
+  };
+}
+
+/**
+ * Load the sessions the background knows about, or start a first one
+ */
+async function initTerminals(): Promise<void> {
   const container = document.getElementById('terminal-container');
   if (!container) {
     console.error('Terminal container not found');
     return;
   }
 
-  // Create terminal with optimized settings
-  terminal = new Terminal({
-    cursorBlink: true,
-    cursorStyle: 'block',
-    fontSize: 13,
-    fontFamily: '"Cascadia Code", "Fira Code", Menlo, Monaco, "Courier New", monospace',
-    theme: {
-      background: '#1e1e1e',
-      foreground: '#cccccc',
-      cursor: '#ffffff',
-      cursorAccent: '#1e1e1e',
-      selectionBackground: '#264f78',
-      selectionForeground: '#ffffff',
-      black: '#1e1e1e',
-      red: '#f14c4c',
-      green: '#4ec9b0',
-      yellow: '#dcdcaa',
-      blue: '#569cd6',
-      magenta: '#c586c0',
-      cyan: '#9cdcfe',
-      white: '#d4d4d4',
-      brightBlack: '#808080',
-      brightRed: '#f14c4c',
-      brightGreen: '#4ec9b0',
-      brightYellow: '#dcdcaa',
-      brightBlue: '#569cd6',
-      brightMagenta: '#c586c0',
-      brightCyan: '#9cdcfe',
-      brightWhite: '#ffffff'
-    },
+  // Handle resize with debouncing
+  const debouncedResize = () => {
+    if (resizeTimeout) {
+      clearTimeout(resizeTimeout);
+    }
+    resizeTimeout = setTimeout(fitActiveSession, 100);
+  };
+
+  const resizeObserver = new ResizeObserver(debouncedResize);
+  resizeObserver.observe(container);
+
+  // Also handle window resize
+  window.addEventListener('resize', debouncedResize);
+
+  try {
+    appearance = await loadTerminalAppearance();
+  } catch (error) {
+    console.error('Failed to load terminal appearance:', error);
+  }
+  applyAppearance(appearance);
+
+  let existing: TerminalSessionInfo[] = [];
+  try {
+    existing = await chrome.runtime.sendMessage({ type: 'terminal:list' }) as TerminalSessionInfo[] || [];
+  } catch (error) {
+    console.error('Failed to list terminal sessions:', error);
+  }
+
+  if (existing.length === 0) {
+    openNewSession();
+    return;
+  }
+  existing.map(createSessionView).forEach(replaySession);
+  activateSession(existing[0].sessionId);
+}
+
+/**
+ * Create the xterm instance and tab for a session
+ */
+function createSessionView(info: Pick<TerminalSessionInfo, 'sessionId' | 'name'>): TerminalSession {
+  const element = document.createElement('div');
+  element.className = 'terminal-view hidden';
+  document.getElementById('terminal-container')?.appendChild(element);
+
+  const terminal = new Terminal({
+    ...appearanceOptions(),
     allowProposedApi: true,
-    scrollback: 10000,
     tabStopWidth: 4
   });
 
   // Add fit addon for responsive sizing
-  fitAddon = new FitAddon();
+  const fitAddon = new FitAddon();
   terminal.loadAddon(fitAddon);
 
   // Add web links addon for clickable URLs
-  const webLinksAddon = new WebLinksAddon();
-  terminal.loadAddon(webLinksAddon);
+  terminal.loadAddon(new WebLinksAddon());
 
-  // Open terminal in container
-  terminal.open(container);
+  const searchAddon = new SearchAddon();
+  terminal.loadAddon(searchAddon);
 
-  // Initial fit
-  setTimeout(() => {
-    fitAddon.fit();
-    sendResize();
-  }, 0);
+  terminal.open(element);
+
+  // Ctrl/Cmd+Shift+F opens search; plain Ctrl+F belongs to the CLI
+  terminal.attachCustomKeyEventHandler((event) => {
+    if (event.type === 'keydown' && (event.ctrlKey || event.metaKey) && event.shiftKey && event.code === 'KeyF') {
+      openSearch();
+      return false;
+    }
+    return true;
+  });
+
+  const tab = document.createElement('div');
+  tab.className = 'terminal-tab';
+  tab.title = 'Double-click to rename';
+
+  const label = document.createElement('span');
+  label.className = 'terminal-tab-name';
+  label.textContent = info.name;
+
+  const close = document.createElement('button');
+  close.className = 'terminal-tab-close';
+  close.title = 'Close session';
+  close.textContent = '×';
+
+  tab.append(label, close);
+  document.getElementById('terminal-tab-list')?.appendChild(tab);
+
+  const session: TerminalSession = { id: info.sessionId, name: info.name, terminal, fitAddon, searchAddon, element, tab };
+  sessions.set(session.id, session);
+
+  searchAddon.onDidChangeResults(({ resultIndex, resultCount }) => {
+    if (session.id === activeSessionId) {
+      renderSearchCount(resultIndex, resultCount);
+    }
+  });
+
+  tab.addEventListener('click', () => activateSession(session.id));
+  tab.addEventListener('dblclick', () => startRename(session));
+  close.addEventListener('click', (event) => {
+    event.stopPropagation();
+    closeSession(session.id);
+  });
 
   // Handle terminal input
   terminal.onData((data) => {
     if (isConnected) {
       sendMessage({
         type: 'terminal:input',
+        sessionId: session.id,
         data
       });
     }
   });
 
-  // Handle resize with debouncing
-  const debouncedResize = () => {
-    if (resizeTimeout) {
-      clearTimeout(resizeTimeout);
+  return session;
+}
+
+/**
+ * Write the output the background buffered for a session, then a marker,
+ * then whatever arrived live in the meantime
+ */
+async function replaySession(session: TerminalSession): Promise<void> {
+  replayQueues.set(session.id, []);
+  let replay: TerminalReplayResponse = { data: '', end: 0, truncated: false };
+  try {
+    replay = await chrome.runtime.sendMessage({ type: 'terminal:replay', sessionId: session.id });
+  } catch (error) {
+    console.error('Failed to replay terminal output:', error);
+  }
+  // Closed while waiting
+  if (!sessions.has(session.id)) return;
+
+  const { terminal } = session;
+  if (replay.truncated) {
+    terminal.writeln('\x1b[2m── older output discarded ──\x1b[0m');
+  }
+  if (replay.data) {
+    terminal.write(replay.data);
+    // Reset attributes so a style left open by the replay doesn't leak into the marker
+    terminal.writeln('\x1b[0m');
+    terminal.writeln(`\x1b[2m── restored output ends here (${new Date().toLocaleTimeString()}) ──\x1b[0m`);
+  }
+
+  const queued = replayQueues.get(session.id) || [];
+  replayQueues.delete(session.id);
+  for (const message of queued) {
+    // Chunks up to replay.end were already part of the replay
+    if (message.offset === undefined || message.offset > replay.end) {
+      terminal.write(message.data);
     }
-    resizeTimeout = setTimeout(() => {
-      fitAddon.fit();
-      sendResize();
-    }, 100);
-  };
+  }
+}
 
-  const resizeObserver = new ResizeObserver(debouncedResize);
-  resizeObserver.observe(container);
+/**
+ * Start a new session, i.e. a new conversation on the backend
+ */
+function openNewSession(): void {
+  let number = sessions.size + 1;
+  const names = new Set(Array.from(sessions.values(), s => s.name));
+  while (names.has(`Session ${number}`)) number++;
 
-  // Also handle window resize
-  window.addEventListener('resize', debouncedResize);
+  const session = createSessionView({ sessionId: crypto.randomUUID(), name: `Session ${number}` });
+  pendingOpens.add(session.id);
+  activateSession(session.id);
+  writeWelcome(session.terminal);
+
+  // Open once fitted so the backend starts with the right size
+  setTimeout(() => {
+    sendMessage({
+      type: 'terminal:open',
+      sessionId: session.id,
+      name: session.name,
+      cols: session.terminal.cols,
+      rows: session.terminal.rows
+    });
+  }, 0);
+}
 
-  // Write welcome message
+function writeWelcome(terminal: Terminal): void {
   terminal.writeln('\x1b[1;36m╔══════════════════════════════════════════════════╗\x1b[0m');
   terminal.writeln('\x1b[1;36m║\x1b[0m  \x1b[1;33mGemini Context Terminal\x1b[0m                          \x1b[1;36m║\x1b[0m');
-  terminal.writeln('\x1b[1;36m║\x1b[0m  Connecting to backend server...                  \x1b[1;36m║\x1b[0m');
+  if (!isConnected) {
+    terminal.writeln('\x1b[1;36m║\x1b[0m  Connecting to backend server...                  \x1b[1;36m║\x1b[0m');
+  }
   terminal.writeln('\x1b[1;36m╚══════════════════════════════════════════════════╝\x1b[0m');
   terminal.writeln('');
 }
 
+/**
+ * Show a session's terminal and tab
+ */
+function activateSession(sessionId: string): void {
+  const target = sessions.get(sessionId);
+  if (!target) return;
+  activeSessionId = sessionId;
+
+  for (const session of sessions.values()) {
+    const active = session.id === sessionId;
+    session.element.classList.toggle('hidden', !active);
+    session.tab.classList.toggle('active', active);
+    if (!active) {
+      session.searchAddon.clearDecorations();
+    }
+  }
+
+  // xterm can only measure a visible terminal
+  setTimeout(() => {
+    fitActiveSession();
+    if (isSearchOpen()) {
+      runSearch('next', true);
+    } else {
+      target.terminal.focus();
+    }
+  }, 0);
+}
+
+function activeSession(): TerminalSession | undefined {
+  return activeSessionId ? sessions.get(activeSessionId) : undefined;
+}
+
+function fitActiveSession(): void {
+  const session = activeSession();
+  if (session) {
+    session.fitAddon.fit();
+    sendResize(session);
+  }
+}
+
+/**
+ * End a session on the backend and remove its tab
+ */
+function closeSession(sessionId: string): void {
+  sendMessage({ type: 'terminal:close', sessionId });
+  removeSessionView(sessionId);
+}
+
+/**
+ * Remove a session's tab, switching to a neighbour; the panel always keeps one
+ */
+function removeSessionView(sessionId: string): void {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+  replayQueues.delete(sessionId);
+
+  const ids = Array.from(sessions.keys());
+  const index = ids.indexOf(sessionId);
+  session.terminal.dispose();
+  session.element.remove();
+  session.tab.remove();
+  sessions.delete(sessionId);
+
+  if (activeSessionId === sessionId) {
+    activeSessionId = null;
+    const neighbour = ids[index + 1] ?? ids[index - 1];
+    if (neighbour && sessions.has(neighbour)) {
+      activateSession(neighbour);
+    }
+  }
+  if (sessions.size === 0) {
+    openNewSession();
+  }
+}
+
+/**
+ * Edit a session's name in place on its tab
+ */
+function startRename(session: TerminalSession): void {
+  const label = session.tab.querySelector('.terminal-tab-name');
+  if (!label) return;
+
+  const input = document.createElement('input');
+  input.className = 'terminal-tab-rename';
+  input.value = session.name;
+  label.replaceWith(input);
+  input.focus();
+  input.select();
+
+  let done = false;
+  const finish = (commit: boolean) => {
+    if (done) return;
+    done = true;
+    const name = input.value.trim();
+    if (commit && name && name !== session.name) {
+      session.name = name;
+      sendMessage({ type: 'terminal:rename', sessionId: session.id, name });
+    }
+    label.textContent = session.name;
+    input.replaceWith(label);
+    session.terminal.focus();
+  };
+
+  input.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') finish(true);
+    if (event.key === 'Escape') finish(false);
+  });
+  input.addEventListener('blur', () => finish(true));
+}
+
+/**
+ * Follow sessions opened, closed or renamed from another side panel
+ */
+function syncSessions(list: TerminalSessionInfo[]): void {
+  const ids = new Set(list.map(info => info.sessionId));
+  for (const info of list) {
+    pendingOpens.delete(info.sessionId);
+    const session = sessions.get(info.sessionId);
+    if (!session) {
+      replaySession(createSessionView(info));
+    } else if (session.name !== info.name) {
+      session.name = info.name;
+      const label = session.tab.querySelector('.terminal-tab-name');
+      if (label) label.textContent = info.name;
+    }
+  }
+  for (const id of Array.from(sessions.keys())) {
+    if (!ids.has(id) && !pendingOpens.has(id)) {
+      removeSessionView(id);
+    }
+  }
+  if (!activeSessionId && sessions.size > 0) {
+    activateSession(sessions.keys().next().value!);
+  }
+}
+
 /**
  * Send terminal resize information to backend
  */
-function sendResize(): void {
-  if (terminal && isConnected) {
+function sendResize(session: TerminalSession): void {
+  if (isConnected) {
     sendMessage({
       type: 'terminal:resize',
-      cols: terminal.cols,
-      rows: terminal.rows
+      sessionId: session.id,
+      cols: session.terminal.cols,
+      rows: session.terminal.rows
+    });
+  }
+}
+
+function isSearchOpen(): boolean {
+  return !document.getElementById('terminal-search')?.classList.contains('hidden');
+}
+
+/**
+ * Show the search bar, seeded with the terminal's selection
+ */
+function openSearch(): void {
+  const bar = document.getElementById('terminal-search');
+  const input = document.getElementById('search-input') as HTMLInputElement | null;
+  if (!bar || !input) return;
+
+  const selection = activeSession()?.terminal.getSelection();
+  if (selection && !selection.includes('\n')) {
+    input.value = selection;
+  }
+  bar.classList.remove('hidden');
+  input.focus();
+  input.select();
+  if (input.value) {
+    runSearch('next', true);
+  }
+}
+
+function closeSearch(): void {
+  document.getElementById('terminal-search')?.classList.add('hidden');
+  const session = activeSession();
+  session?.searchAddon.clearDecorations();
+  session?.terminal.clearSelection();
+  session?.terminal.focus();
+}
+
+/**
+ * Find the search term in the active session's buffer, scrollback included
+ */
+function runSearch(direction: 'next' | 'previous', incremental = false): void {
+  const session = activeSession();
+  const input = document.getElementById('search-input') as HTMLInputElement | null;
+  if (!session || !input) return;
+
+  const term = input.value;
+  input.classList.remove('invalid');
+  if (!term) {
+    session.searchAddon.clearDecorations();
+    session.terminal.clearSelection();
+    setSearchCount('');
+    return;
+  }
+
+  if (searchRegex) {
+    try {
+      new RegExp(term);
+    } catch {
+      input.classList.add('invalid');
+      session.searchAddon.clearDecorations();
+      setSearchCount('Invalid regex');
+      return;
+    }
+  }
+
+  const options: ISearchOptions = {
+    caseSensitive: searchCaseSensitive,
+    regex: searchRegex,
+    incremental,
+    decorations: {
+      matchBackground: '#623315',
+      matchOverviewRuler: '#d18616',
+      activeMatchBackground: '#515c6a',
+      activeMatchBorder: '#f9a825',
+      activeMatchColorOverviewRuler: '#f9a825'
+    }
+  };
+  const found = direction === 'next'
+    ? session.searchAddon.findNext(term, options)
+    : session.searchAddon.findPrevious(term, options);
+  if (!found) {
+    setSearchCount('No results');
+  }
+}
+
+/**
+ * Show the match position reported by the search addon
+ */
+function renderSearchCount(resultIndex: number, resultCount: number): void {
+  if (resultCount === 0) {
+    setSearchCount('No results');
+  } else if (resultIndex < 0) {
+    // Past the addon's highlight limit the position isn't tracked
+    setSearchCount(`${resultCount}+ matches`);
+  } else {
+    setSearchCount(`${resultIndex + 1} of ${resultCount}`);
+  }
+}
+
+function setSearchCount(text: string): void {
+  const count = document.getElementById('search-count');
+  if (count) count.textContent = text;
+}
+
+/**
+ * Download the active session's transcript
+ */
+async function exportTranscript(format: TranscriptFormat): Promise<void> {
+  const session = activeSession();
+  if (!session) return;
+
+  const exportedAt = new Date();
+  const content = format === 'html'
+    ? transcriptHtml(session.terminal, session.name)
+    : format === 'markdown'
+      ? transcriptMarkdown(session.terminal, session.name, exportedAt)
+      : transcriptText(session.terminal);
+
+  try {
+    await downloadTranscript(content, format, session.name, exportedAt);
+    document.getElementById('transcript-export')?.classList.add('hidden');
+  } catch (error) {
+    console.error('Failed to export transcript:', error);
+    const status = document.getElementById('transcript-export-status');
+    if (status) {
+      status.textContent = error instanceof Error ? error.message : String(error);
+    }
+  }
+}
+
+/**
+ * Collect what "Send to Gemini" captured in this window
+ */
+async function takePageContexts(): Promise<void> {
+  try {
+    const { id: windowId } = await chrome.windows.getCurrent();
+    const taken = await chrome.runtime.sendMessage({ type: 'context:take', windowId }) as PendingContext[] | undefined;
+    heldContexts.push(...(taken || []));
+  } catch (error) {
+    console.error('Failed to take page context:', error);
+  }
+  deliverPageContexts();
+}
+
+/**
+ * Paste held contexts at the active session's prompt or attach them to its
+ * conversation; they stay held until the backend is connected
+ */
+function deliverPageContexts(): void {
+  const session = activeSession();
+  if (!isConnected || !session || heldContexts.length === 0) return;
+
+  const contexts = heldContexts;
+  heldContexts = [];
+  for (const pending of contexts) {
+    if (pending.delivery === 'prompt') {
+      // Without bracketed paste each newline would submit part of the block
+      const block = session.terminal.modes.bracketedPasteMode
+        ? pending.block
+        : pending.block.replace(/\s*\n\s*/g, ' ');
+      session.terminal.paste(block);
+    } else {
+      sendMessage({ type: 'terminal:context', sessionId: session.id, context: pending.context });
+    }
+  }
+  session.terminal.focus();
+}
+
+/**
+ * Send files to the active session, each shown as a chip with its progress
+ */
+function attachFiles(files: File[]): void {
+  const session = activeSession();
+  if (!session) return;
+
+  for (const file of files) {
+    const chip = createAttachmentChip(file);
+    if (!isConnected) {
+      setChipState(chip, 'failed', 'Not connected');
+      continue;
+    }
+    setChipState(chip, 'sending', 'Queued');
+    attachmentQueue = attachmentQueue.then(() =>
+      sendAttachment(file, session.id, (sentBytes) => {
+        setChipState(chip, 'sending', `${Math.floor((sentBytes / Math.max(file.size, 1)) * 100)}%`);
+      })
+        .then(() => setChipState(chip, 'sent', formatBytes(file.size)))
+        .catch((error) => {
+          console.error('Failed to send attachment:', error);
+          setChipState(chip, 'failed', error instanceof Error ? error.message : String(error));
+        })
+    );
+  }
+  session.terminal.focus();
+}
+
+function createAttachmentChip(file: File): HTMLElement {
+  const chip = document.createElement('div');
+  chip.className = 'attachment-chip';
+  chip.title = `${file.name} (${file.type || 'unknown type'}, ${formatBytes(file.size)})`;
+
+  const name = document.createElement('span');
+  name.className = 'attachment-name';
+  name.textContent = file.name;
+
+  const status = document.createElement('span');
+  status.className = 'attachment-status';
+
+  const dismiss = document.createElement('button');
+  dismiss.className = 'attachment-dismiss';
+  dismiss.title = 'Dismiss';
+  dismiss.textContent = '×';
+  // A transfer in progress keeps going; only the chip goes away
+  dismiss.addEventListener('click', () => chip.remove());
+
+  chip.append(name, status, dismiss);
+  document.getElementById('attachment-chips')?.appendChild(chip);
+  return chip;
+}
+
+function setChipState(chip: HTMLElement, state: 'sending' | 'sent' | 'failed', text: string): void {
+  chip.classList.remove('sending', 'sent', 'failed');
+  chip.classList.add(state);
+  const status = chip.querySelector('.attachment-status');
+  if (status) {
+    status.textContent = state === 'sent' ? `✓ ${text}` : text;
+  }
+}
+
+/**
+ * Start picking an element in the active tab, or stop if already picking
+ */
+function togglePicker(): void {
+  const button = document.getElementById('pick-element-btn');
+  const picking = button?.classList.toggle('active') ?? false;
+  sendMessage({ type: picking ? 'picker:start' : 'picker:stop' });
+}
+
+/**
+ * Show what the picker captured, with actions to hand it to Gemini
+ */
+function showPickerResult(result: PickerResultMessage): void {
+  document.getElementById('pick-element-btn')?.classList.remove('active');
+  const container = document.getElementById('picked-element');
+  // Cancelled with Escape
+  if (!container || (!result.element && !result.error)) return;
+
+  container.replaceChildren();
+  const header = document.createElement('div');
+  header.className = 'picked-header';
+  const title = document.createElement('span');
+  title.textContent = result.element ? 'Picked element' : 'Element picker';
+  const dismiss = document.createElement('button');
+  dismiss.className = 'picked-dismiss';
+  dismiss.title = 'Dismiss';
+  dismiss.textContent = '×';
+  dismiss.addEventListener('click', () => container.replaceChildren());
+  header.append(title, dismiss);
+  container.appendChild(header);
+
+  if (!result.element) {
+    const error = document.createElement('div');
+    error.className = 'picked-error';
+    error.textContent = result.error!;
+    container.appendChild(error);
+    return;
+  }
+
+  const element = result.element;
+  const selector = document.createElement('code');
+  selector.className = 'picked-selector';
+  selector.textContent = element.selector;
+
+  const meta = document.createElement('div');
+  meta.className = 'picked-meta';
+  const { x, y, width, height } = element.box;
+  meta.textContent = `<${element.tag}> · ${width}×${height} at ${x},${y}${element.text ? ` · "${element.text}"` : ''}`;
+
+  const actions = document.createElement('div');
+  actions.className = 'picked-actions';
+  const insert = document.createElement('button');
+  insert.textContent = 'Insert at prompt';
+  insert.addEventListener('click', () => {
+    const session = activeSession();
+    if (!session || !isConnected) return;
+    session.terminal.paste(formatPickedElement(element));
+    session.terminal.focus();
+    container.replaceChildren();
+  });
+  const send = document.createElement('button');
+  send.textContent = 'Send to Gemini';
+  send.title = 'Push the element to the backend as an elementPicked event';
+  send.addEventListener('click', () => {
+    const session = activeSession();
+    if (!session || !isConnected) return;
+    sendMessage({ type: 'browser:event', event: 'elementPicked', sessionId: session.id, data: element });
+    container.replaceChildren();
+  });
+  const copy = document.createElement('button');
+  copy.textContent = 'Copy selector';
+  copy.addEventListener('click', () => {
+    navigator.clipboard.writeText(element.selector).catch((error) => {
+      console.error('Failed to copy selector:', error);
     });
+  });
+  actions.append(insert, send, copy);
+
+  container.append(selector, meta, actions);
+}
+
+/**
+ * One line describing a picked element, for the prompt
+ */
+function formatPickedElement(element: PickedElement): string {
+  const text = element.text.length > 80 ? `${element.text.slice(0, 80)}…` : element.text;
+  return `Element \`${element.selector}\` (<${element.tag}>${text ? ` "${text}"` : ''}) on "${element.title || element.url}" <${element.url}> `;
+}
+
+/**
+ * Apply appearance settings to every open terminal and the settings form
+ */
+function applyAppearance(next: TerminalAppearance): void {
+  appearance = next;
+  const options = appearanceOptions();
+  for (const session of sessions.values()) {
+    Object.assign(session.terminal.options, options);
+  }
+
+  // The container's padding shows around the terminal; match its background
+  const container = document.getElementById('terminal-container');
+  if (container) {
+    container.style.backgroundColor = options?.theme?.background ?? '';
+  }
+
+  renderAppearanceForm();
+  // Font changes alter how many rows and columns fit
+  fitActiveSession();
+}
+
+/**
+ * Show the current appearance in the settings form
+ */
+function renderAppearanceForm(): void {
+  const form = document.getElementById('terminal-settings-form') as HTMLFormElement | null;
+  if (!form) return;
+  const field = (id: string) => document.getElementById(id) as HTMLInputElement | HTMLSelectElement;
+
+  field('appearance-font-family').value = appearance.fontFamily;
+  field('appearance-font-size').value = String(appearance.fontSize);
+  field('appearance-line-height').value = String(appearance.lineHeight);
+  field('appearance-cursor-style').value = appearance.cursorStyle;
+  (field('appearance-cursor-blink') as HTMLInputElement).checked = appearance.cursorBlink;
+  field('appearance-scrollback').value = String(appearance.scrollback);
+
+  const theme = field('appearance-theme') as HTMLSelectElement;
+  const custom = theme.querySelector<HTMLOptionElement>('option[value="custom"]');
+  if (custom) {
+    custom.disabled = !appearance.customTheme;
+  }
+  theme.value = appearance.theme;
+}
+
+/**
+ * Save the settings form; open terminals update from the storage event
+ */
+async function saveAppearanceForm(): Promise<void> {
+  const field = (id: string) => document.getElementById(id) as HTMLInputElement;
+  await saveTerminalAppearance({
+    ...appearance,
+    fontFamily: field('appearance-font-family').value,
+    fontSize: field('appearance-font-size').valueAsNumber,
+    lineHeight: field('appearance-line-height').valueAsNumber,
+    cursorStyle: field('appearance-cursor-style').value as TerminalAppearance['cursorStyle'],
+    cursorBlink: field('appearance-cursor-blink').checked,
+    scrollback: field('appearance-scrollback').valueAsNumber,
+    theme: field('appearance-theme').value as TerminalAppearance['theme']
+  });
+}
+
+/**
+ * Import a theme file and switch to it
+ */
+async function importTheme(file: File): Promise<void> {
+  try {
+    const customTheme = parseThemeJson(await file.text());
+    await saveTerminalAppearance({ ...appearance, theme: 'custom', customTheme });
+    showAppearanceStatus(`Imported ${file.name}`);
+  } catch (error) {
+    showAppearanceStatus(error instanceof Error ? error.message : String(error), true);
+  }
+}
+
+function showAppearanceStatus(text: string, isError = false): void {
+  const status = document.getElementById('appearance-status');
+  if (status) {
+    status.textContent = text;
+    status.classList.toggle('error', isError);
   }
 }
 
 /**
  * Send message to background script
  */
-function sendMessage(message: WebSocketMessage): void {
+function sendMessage(message: WebSocketMessage | ExtensionMessage): void {
   chrome.runtime.sendMessage(message).catch((error) => {
     console.error('Failed to send message:', error);
   });
@@ -140,10 +865,16 @@ function sendMessage(message: WebSocketMessage): void {
 /**
  * Update connection status UI
  */
-function updateConnectionStatus(status: 'connected' | 'disconnected' | 'connecting' | 'error', message?: string): void {
+function updateConnectionStatus(
+  status: ConnectionStatusMessage['status'],
+  message?: string,
+  pairingCode?: string
+): void {
   const statusElement = document.getElementById('status');
   const overlay = document.getElementById('connection-overlay');
   const statusText = statusElement?.querySelector('.status-text');
+  const pairingInfo = document.getElementById('pairing-info');
+  const pairingCodeElement = document.getElementById('pairing-code');
 
   if (statusElement) {
     statusElement.className = 'status-indicator ' + status;
@@ -154,6 +885,7 @@ function updateConnectionStatus(status: 'connected' | 'disconnected' | 'connecti
       connected: 'Connected',
       disconnected: 'Disconnected',
       connecting: 'Connecting...',
+      pairing: 'Pairing...',
       error: message || 'Error'
     };
     statusText.textContent = statusMessages[status] || status;
@@ -163,9 +895,12 @@ function updateConnectionStatus(status: 'connected' | 'disconnected' | 'connecti
     if (status === 'connected') {
       overlay.classList.add('hidden');
       isConnected = true;
-      // Send initial resize
-      setTimeout(sendResize, 100);
-    } else if (status === 'connecting') {
+      // Send initial resize, then anything sent here while disconnected
+      setTimeout(() => {
+        fitActiveSession();
+        deliverPageContexts();
+      }, 100);
+    } else if (status === 'connecting' || status === 'pairing') {
       overlay.classList.remove('hidden');
       isConnected = false;
     } else if (status === 'disconnected' || status === 'error') {
@@ -174,11 +909,19 @@ function updateConnectionStatus(status: 'connected' | 'disconnected' | 'connecti
     }
   }
 
-  // Write status to terminal
-  if (terminal) {
+  // Show the one-time code while the backend waits for confirmation
+  if (pairingInfo && pairingCodeElement) {
+    pairingInfo.classList.toggle('hidden', status !== 'pairing');
+    pairingCodeElement.textContent = status === 'pairing' ? pairingCode || '' : '';
+  }
+
+  // Write status to every session's terminal
+  for (const { terminal } of sessions.values()) {
     if (status === 'connected') {
       terminal.writeln('\x1b[1;32m✓ Connected to backend server\x1b[0m');
       terminal.writeln('');
+    } else if (status === 'pairing' && pairingCode) {
+      terminal.writeln(`\x1b[1;33m⚿ Pairing required: enter code ${pairingCode} in Gemini CLI\x1b[0m`);
     } else if (status === 'disconnected') {
       terminal.writeln('\x1b[1;31m✗ Disconnected from backend server\x1b[0m');
     } else if (status === 'error' && message) {
@@ -187,22 +930,362 @@ function updateConnectionStatus(status: 'connected' | 'disconnected' | 'connecti
   }
 }
 
+/**
+ * Tell the user what the background lost when Chrome restarted it
+ */
+function reportWorkerRestart(report: WorkerRestartedMessage): void {
+  const terminal = activeSession()?.terminal;
+  if (!terminal) return;
+  const time = new Date(report.restartedAt).toLocaleTimeString();
+  terminal.writeln('');
+  terminal.writeln(`\x1b[1;33m⚠ Extension background was restarted by Chrome at ${time}\x1b[0m`);
+  for (const item of report.lost) {
+    terminal.writeln(`\x1b[33m  lost:     ${item}\x1b[0m`);
+  }
+  for (const item of report.restored) {
+    terminal.writeln(`\x1b[32m  restored: ${item}\x1b[0m`);
+  }
+}
+
+/**
+ * Show the journal of the active tab, if the DOM changes panel is open
+ */
+async function refreshDomChanges(): Promise<void> {
+  const panel = document.getElementById('dom-changes');
+  if (!panel || panel.classList.contains('hidden')) return;
+
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id) {
+    domChangesTabId = null;
+    renderDomChanges([], 'No active tab');
+    return;
+  }
+  domChangesTabId = tab.id;
+  await requestDomChanges({ type: 'domChanges:list', tabId: tab.id });
+}
+
+/**
+ * Send a journal request to the background and render what comes back
+ */
+async function requestDomChanges(message: DomChangesRequestMessage): Promise<void> {
+  try {
+    const response = await chrome.runtime.sendMessage(message) as DomChangesResponse;
+    if (message.tabId !== domChangesTabId) return;
+    if (response.success) {
+      renderDomChanges(response.changes || []);
+    } else if (message.type === 'domChanges:list') {
+      // Pages scripts can't run on have no journal
+      renderDomChanges([], response.error);
+    } else {
+      showDomChangesError(response.error || 'Undo failed');
+    }
+  } catch (error) {
+    showDomChangesError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Render journal entries, newest first, with an Undo button on each
+ */
+function renderDomChanges(changes: DomChangeEntry[], error?: string): void {
+  const list = document.getElementById('dom-changes-list');
+  const revertAll = document.getElementById('revert-all-btn') as HTMLButtonElement | null;
+  if (!list) return;
+
+  showDomChangesError(error);
+  list.replaceChildren();
+
+  if (changes.length === 0 && !error) {
+    const empty = document.createElement('li');
+    empty.className = 'empty';
+    empty.textContent = 'No changes made on this page';
+    list.appendChild(empty);
+  }
+
+  for (const change of [...changes].reverse()) {
+    const item = document.createElement('li');
+    item.classList.toggle('reverted', change.reverted);
+
+    const summary = document.createElement('span');
+    summary.className = 'dom-change-summary';
+    summary.textContent = `#${change.id} ${change.summary}`;
+    summary.title = `${change.summary}\n${new Date(change.timestamp).toLocaleTimeString()}`;
+
+    const undo = document.createElement('button');
+    undo.textContent = change.reverted ? 'Undone' : 'Undo';
+    undo.disabled = change.reverted;
+    undo.addEventListener('click', () => {
+      if (domChangesTabId === null) return;
+      requestDomChanges({ type: 'domChanges:undo', tabId: domChangesTabId, changeId: change.id });
+    });
+
+    item.append(summary, undo);
+    list.appendChild(item);
+  }
+
+  if (revertAll) {
+    revertAll.disabled = !changes.some(change => !change.reverted);
+  }
+}
+
+/**
+ * Show or clear the error line of the DOM changes panel
+ */
+function showDomChangesError(error?: string): void {
+  const element = document.getElementById('dom-changes-error');
+  if (!element) return;
+  element.textContent = error || '';
+  element.classList.toggle('hidden', !error);
+}
+
+/**
+ * Show an approve/deny prompt for a mutating action
+ */
+function showApprovalPrompt(request: ApprovalRequestMessage): void {
+  const container = document.getElementById('approval-prompts');
+  if (!container || document.getElementById(`approval-${request.approvalId}`)) return;
+
+  const prompt = document.createElement('div');
+  prompt.className = 'approval-prompt';
+  prompt.id = `approval-${request.approvalId}`;
+
+  const title = document.createElement('div');
+  title.className = 'approval-title';
+  title.textContent = `Allow ${request.action} on ${request.origin || request.url || 'this page'}?`;
+  title.title = request.title ? `${request.title}\n${request.url}` : request.url || '';
+
+  const summary = document.createElement('div');
+  summary.className = 'approval-summary';
+  summary.textContent = request.diff
+    ? `${request.summary} (${request.diff.matchCount} match${request.diff.matchCount === 1 ? '' : 'es'})`
+    : request.summary;
+  prompt.append(title, summary);
+
+  if (request.code !== undefined) {
+    const code = document.createElement('pre');
+    code.className = 'approval-code';
+    code.textContent = request.code;
+    prompt.appendChild(code);
+  }
+
+  if (request.diff) {
+    const diff = document.createElement('pre');
+    diff.className = 'approval-code';
+    const lines = (text: string, sign: string, className: string) =>
+      text.split('\n').map((line) => {
+        const span = document.createElement('span');
+        span.className = className;
+        span.textContent = `${sign} ${line}\n`;
+        return span;
+      });
+    diff.append(...lines(request.diff.before, '-', 'removed'), ...lines(request.diff.after, '+', 'added'));
+    prompt.appendChild(diff);
+  }
+
+  const actions = document.createElement('div');
+  actions.className = 'approval-actions';
+
+  const always = document.createElement('input');
+  always.type = 'checkbox';
+  const alwaysLabel = document.createElement('label');
+  alwaysLabel.append(always, 'Always allow on this origin');
+  // Pages without an origin (about:blank, data: URLs) can't be allow-listed
+  alwaysLabel.hidden = !request.origin;
+
+  const answer = (approved: boolean) => {
+    const response: ApprovalResponseMessage = {
+      type: 'approval:response',
+      approvalId: request.approvalId,
+      approved,
+      alwaysAllow: approved && always.checked
+    };
+    chrome.runtime.sendMessage(response).catch((error) => {
+      console.error('Failed to send approval:', error);
+    });
+    prompt.remove();
+  };
+
+  const deny = document.createElement('button');
+  deny.textContent = 'Deny';
+  deny.addEventListener('click', () => answer(false));
+
+  const approve = document.createElement('button');
+  approve.className = 'approve';
+  approve.textContent = 'Approve';
+  approve.addEventListener('click', () => answer(true));
+
+  actions.append(alwaysLabel, deny, approve);
+  prompt.appendChild(actions);
+  container.appendChild(prompt);
+}
+
+/**
+ * Load the audit log from the background and render it
+ */
+async function loadAuditLog(type: 'audit:list' | 'audit:clear' = 'audit:list'): Promise<void> {
+  const response = await chrome.runtime.sendMessage({ type }) as AuditLogResponse;
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to load audit log');
+  }
+  auditEntries = response.entries || [];
+  renderAuditLog();
+}
+
+/**
+ * Entries matching the audit view's text and status filters
+ */
+function filteredAuditEntries(): AuditEntry[] {
+  const text = (document.getElementById('audit-filter') as HTMLInputElement | null)?.value.trim().toLowerCase() || '';
+  const status = (document.getElementById('audit-status') as HTMLSelectElement | null)?.value || 'all';
+
+  return auditEntries.filter((entry) => {
+    if (status === 'success' && !entry.success) return false;
+    if (status === 'error' && entry.success) return false;
+    if (!text) return true;
+    return [entry.action, entry.url, entry.params, entry.error]
+      .some(field => field?.toLowerCase().includes(text));
+  });
+}
+
+/**
+ * Render the filtered audit log, newest first
+ */
+function renderAuditLog(): void {
+  const list = document.getElementById('audit-list');
+  const count = document.getElementById('audit-count');
+  if (!list) return;
+
+  const entries = filteredAuditEntries();
+  if (count) {
+    count.textContent = entries.length === auditEntries.length
+      ? `${auditEntries.length} request(s)`
+      : `${entries.length} of ${auditEntries.length} request(s)`;
+  }
+
+  list.replaceChildren(...entries.slice(-MAX_AUDIT_ROWS).reverse().map(renderAuditEntry));
+}
+
+function renderAuditEntry(entry: AuditEntry): HTMLLIElement {
+  const item = document.createElement('li');
+  item.title = new Date(entry.timestamp).toLocaleString();
+
+  const line = document.createElement('div');
+  line.className = 'audit-line';
+
+  const time = document.createElement('span');
+  time.className = 'audit-meta';
+  time.textContent = new Date(entry.timestamp).toLocaleTimeString();
+
+  const action = document.createElement('span');
+  action.className = entry.success ? 'audit-action' : 'audit-action failed';
+  action.textContent = entry.action;
+
+  const url = document.createElement('span');
+  url.className = 'audit-url';
+  url.textContent = entry.url || '';
+  url.title = entry.url || '';
+
+  const meta = document.createElement('span');
+  meta.className = 'audit-meta';
+  meta.textContent = `${entry.durationMs}ms · ${formatBytes(entry.payloadSize)}`;
+
+  line.append(time, action, url, meta);
+  item.appendChild(line);
+
+  const detailText = entry.success ? entry.params : entry.error;
+  if (detailText) {
+    const detail = document.createElement('div');
+    detail.className = entry.success ? 'audit-detail' : 'audit-detail error';
+    detail.textContent = detailText;
+    detail.title = entry.success ? entry.params : `${entry.error}\n${entry.params}`;
+    item.appendChild(detail);
+  }
+
+  return item;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Download the filtered audit log as a JSON array or NDJSON
+ */
+function exportAuditLog(format: 'json' | 'ndjson'): void {
+  const entries = filteredAuditEntries();
+  const content = format === 'json'
+    ? JSON.stringify(entries, null, 2)
+    : entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+  const blob = new Blob([content], {
+    type: format === 'json' ? 'application/json' : 'application/x-ndjson'
+  });
+
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `gemini-audit-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+}
+
 /**
  * Handle messages from background script
  */
-function handleMessage(message: WebSocketMessage): void {
+function handleMessage(message: WebSocketMessage | ExtensionMessage): void {
   console.log('[Sidepanel] Received message:', message.type);
   switch (message.type) {
     case 'terminal:output':
       console.log('[Sidepanel] Terminal output:', message.data?.length || 0, 'chars');
-      if (terminal) {
-        terminal.write(message.data);
+      if (replayQueues.has(message.sessionId)) {
+        replayQueues.get(message.sessionId)!.push(message);
+      } else {
+        sessions.get(message.sessionId)?.terminal.write(message.data);
       }
       break;
 
     case 'connection:status':
       const statusMessage = message as ConnectionStatusMessage;
-      updateConnectionStatus(statusMessage.status, statusMessage.message);
+      updateConnectionStatus(statusMessage.status, statusMessage.message, statusMessage.pairingCode);
+      break;
+
+    case 'worker:restarted':
+      reportWorkerRestart(message);
+      break;
+
+    case 'approval:request':
+      showApprovalPrompt(message);
+      break;
+
+    case 'approval:resolved':
+      // Answered in another window, or expired
+      document.getElementById(`approval-${message.approvalId}`)?.remove();
+      break;
+
+    case 'terminal:sessions':
+      syncSessions(message.sessions);
+      break;
+
+    case 'context:available':
+      takePageContexts();
+      break;
+
+    case 'picker:result':
+      showPickerResult(message);
+      break;
+
+    case 'audit:appended':
+      // A closed view reloads the whole log when it opens
+      if (!document.getElementById('audit-log')?.classList.contains('hidden')) {
+        auditEntries.push(message.entry);
+        renderAuditLog();
+      }
+      break;
+
+    case 'domChanges:updated':
+      if (message.tabId === domChangesTabId) {
+        renderDomChanges(message.changes);
+      }
       break;
 
     default:
@@ -210,12 +1293,29 @@ function handleMessage(message: WebSocketMessage): void {
   }
 }
 
+/**
+ * Show which connection profile the background is using
+ */
+function renderActiveProfile(settings: ConnectionSettings): void {
+  const profile = getActiveProfile(settings);
+  const profileName = document.getElementById('profile-name');
+  const hint = document.getElementById('backend-hint');
+
+  if (profileName) {
+    profileName.textContent = profile.name;
+    profileName.title = `${profile.host}:${profile.port}`;
+  }
+  if (hint) {
+    hint.textContent = `Make sure the backend is running on ${profile.host}:${profile.port}`;
+  }
+}
+
 /**
  * Set up event listeners
  */
 function setupEventListeners(): void {
   // Listen for messages from background script
-  chrome.runtime.onMessage.addListener((message: WebSocketMessage) => {
+  chrome.runtime.onMessage.addListener((message: WebSocketMessage | ExtensionMessage) => {
     handleMessage(message);
   });
 
@@ -231,11 +1331,198 @@ function setupEventListeners(): void {
     chrome.runtime.sendMessage({ type: 'connection:status', action: 'reconnect' });
   });
 
+  // Options button
+  document.getElementById('options-btn')?.addEventListener('click', () => {
+    chrome.runtime.openOptionsPage();
+  });
+
+  // DOM changes panel
+  document.getElementById('dom-changes-btn')?.addEventListener('click', () => {
+    const panel = document.getElementById('dom-changes');
+    if (!panel) return;
+    panel.classList.toggle('hidden');
+    if (panel.classList.contains('hidden')) {
+      domChangesTabId = null;
+    } else {
+      refreshDomChanges();
+    }
+  });
+
+  document.getElementById('revert-all-btn')?.addEventListener('click', () => {
+    if (domChangesTabId === null) return;
+    requestDomChanges({ type: 'domChanges:revertAll', tabId: domChangesTabId });
+  });
+
+  // The list follows the active tab, and a reload discards its journal
+  chrome.tabs.onActivated.addListener(() => {
+    refreshDomChanges();
+  });
+  chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    if (tabId === domChangesTabId && changeInfo.status === 'complete') {
+      refreshDomChanges();
+    }
+  });
+
+  // Audit log view
+  const reportAuditError = (error: unknown) => {
+    const count = document.getElementById('audit-count');
+    if (count) {
+      count.textContent = error instanceof Error ? error.message : String(error);
+    }
+  };
+
+  document.getElementById('audit-btn')?.addEventListener('click', () => {
+    const panel = document.getElementById('audit-log');
+    if (!panel) return;
+    panel.classList.toggle('hidden');
+    if (!panel.classList.contains('hidden')) {
+      loadAuditLog().catch(reportAuditError);
+    }
+  });
+
+  document.getElementById('audit-filter')?.addEventListener('input', renderAuditLog);
+  document.getElementById('audit-status')?.addEventListener('change', renderAuditLog);
+  document.getElementById('audit-export-json')?.addEventListener('click', () => exportAuditLog('json'));
+  document.getElementById('audit-export-ndjson')?.addEventListener('click', () => exportAuditLog('ndjson'));
+  document.getElementById('audit-clear')?.addEventListener('click', () => {
+    if (!confirm('Delete the entire audit log?')) return;
+    loadAuditLog('audit:clear').catch(reportAuditError);
+  });
+
+  // Follow profile switches made from the options page
+  onConnectionSettingsChanged(renderActiveProfile);
+
+  // Terminal appearance settings
+  document.getElementById('terminal-settings-btn')?.addEventListener('click', () => {
+    document.getElementById('terminal-settings')?.classList.toggle('hidden');
+  });
+
+  const reportAppearanceError = (error: unknown) => {
+    showAppearanceStatus(error instanceof Error ? error.message : String(error), true);
+  };
+
+  document.getElementById('terminal-settings-form')?.addEventListener('change', (event) => {
+    // The file input imports a theme instead of changing a setting
+    if ((event.target as HTMLElement).id === 'appearance-theme-file') return;
+    saveAppearanceForm().then(() => showAppearanceStatus('')).catch(reportAppearanceError);
+  });
+  document.getElementById('terminal-settings-form')?.addEventListener('submit', (event) => {
+    event.preventDefault();
+  });
+
+  document.getElementById('appearance-import-btn')?.addEventListener('click', () => {
+    document.getElementById('appearance-theme-file')?.click();
+  });
+  document.getElementById('appearance-theme-file')?.addEventListener('change', (event) => {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (file) {
+      importTheme(file);
+    }
+  });
+
+  document.getElementById('appearance-reset-btn')?.addEventListener('click', () => {
+    // Keep the imported theme so it can be picked again
+    saveTerminalAppearance({ ...DEFAULT_APPEARANCE, customTheme: appearance.customTheme })
+      .then(() => showAppearanceStatus(''))
+      .catch(reportAppearanceError);
+  });
+
+  // Follow changes made in other side panels, and the system scheme
+  onTerminalAppearanceChanged(applyAppearance);
+  darkScheme.addEventListener('change', () => {
+    if (appearance.theme === 'system') {
+      applyAppearance(appearance);
+    }
+  });
+
+  // Files dropped or pasted onto the terminal become attachments
+  const terminalContainer = document.getElementById('terminal-container');
+  const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes('Files') ?? false;
+
+  terminalContainer?.addEventListener('dragover', (event) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer!.dropEffect = 'copy';
+    terminalContainer.classList.add('drag-over');
+  });
+  terminalContainer?.addEventListener('dragleave', (event) => {
+    // Moving between the terminal's own elements also fires dragleave
+    if (!terminalContainer.contains(event.relatedTarget as Node | null)) {
+      terminalContainer.classList.remove('drag-over');
+    }
+  });
+  terminalContainer?.addEventListener('drop', (event) => {
+    terminalContainer.classList.remove('drag-over');
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    attachFiles(Array.from(event.dataTransfer!.files));
+  });
+
+  // Capture phase, so file pastes never reach xterm; text pastes still do
+  terminalContainer?.addEventListener('paste', (event) => {
+    const files = Array.from(event.clipboardData?.files || []);
+    if (files.length === 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const pastedAt = new Date();
+    attachFiles(files.map(file => namePastedFile(file, pastedAt)));
+  }, true);
+
+  // Element picker
+  document.getElementById('pick-element-btn')?.addEventListener('click', togglePicker);
+
+  // Search in the active session
+  document.getElementById('search-btn')?.addEventListener('click', () => {
+    if (isSearchOpen()) {
+      closeSearch();
+    } else {
+      openSearch();
+    }
+  });
+
+  const searchInput = document.getElementById('search-input');
+  searchInput?.addEventListener('input', () => runSearch('next', true));
+  searchInput?.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      runSearch(event.shiftKey ? 'previous' : 'next');
+    } else if (event.key === 'Escape') {
+      closeSearch();
+    }
+  });
+  document.getElementById('search-next')?.addEventListener('click', () => runSearch('next'));
+  document.getElementById('search-prev')?.addEventListener('click', () => runSearch('previous'));
+  document.getElementById('search-close')?.addEventListener('click', closeSearch);
+
+  document.getElementById('search-case')?.addEventListener('click', (event) => {
+    searchCaseSensitive = !searchCaseSensitive;
+    (event.currentTarget as HTMLElement).classList.toggle('active', searchCaseSensitive);
+    runSearch('next', true);
+  });
+  document.getElementById('search-regex')?.addEventListener('click', (event) => {
+    searchRegex = !searchRegex;
+    (event.currentTarget as HTMLElement).classList.toggle('active', searchRegex);
+    runSearch('next', true);
+  });
+
+  // Transcript export
+  document.getElementById('export-btn')?.addEventListener('click', () => {
+    const status = document.getElementById('transcript-export-status');
+    if (status) status.textContent = '';
+    document.getElementById('transcript-export')?.classList.toggle('hidden');
+  });
+  document.querySelectorAll<HTMLButtonElement>('#transcript-export button[data-format]').forEach((button) => {
+    button.addEventListener('click', () => exportTranscript(button.dataset.format as TranscriptFormat));
+  });
+
+  // New session button
+  document.getElementById('new-session-btn')?.addEventListener('click', openNewSession);
+
   // Clear terminal button
   document.getElementById('clear-btn')?.addEventListener('click', () => {
-    if (terminal) {
-      terminal.clear();
-    }
+    activeSession()?.terminal.clear();
   });
 }
 
@@ -255,7 +1542,9 @@ async function checkConnectionStatus(): Promise<void> {
 
 // Initialize when DOM is ready
 document.addEventListener('DOMContentLoaded', () => {
-  initTerminal();
+  // The panel may have been opened by "Send to Gemini"
+  initTerminals().then(takePageContexts);
   setupEventListeners();
+  loadConnectionSettings().then(renderActiveProfile);
   checkConnectionStatus();
 });
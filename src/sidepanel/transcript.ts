@@ -0,0 +1,225 @@
+/**
+ * Session Transcripts
+ * Renders a terminal's buffer as plain text, HTML or Markdown and saves it
+ * through the downloads API
+ */
+
+import type { Terminal, IBufferCell, ITheme } from '@xterm/xterm';
+
+export type TranscriptFormat = 'text' | 'html' | 'markdown';
+
+const TRANSCRIPT_TYPES: Record<TranscriptFormat, { extension: string; mimeType: string }> = {
+  text: { extension: 'txt', mimeType: 'text/plain' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' }
+};
+
+/**
+ * The whole buffer, scrollback included, as plain text. Reading the rendered
+ * buffer rather than the raw output leaves escape sequences behind, and lines
+ * xterm wrapped to the panel width are joined back together.
+ */
+export function transcriptText(terminal: Terminal): string {
+  const buffer = terminal.buffer.active;
+  const lines: string[] = [];
+  for (let i = 0; i < buffer.length; i++) {
+    const line = buffer.getLine(i);
+    if (!line) continue;
+    const text = line.translateToString(true);
+    if (line.isWrapped && lines.length > 0) {
+      lines[lines.length - 1] += text;
+    } else {
+      lines.push(text);
+    }
+  }
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+    lines.pop();
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * The buffer as a standalone HTML page, keeping colors and text attributes
+ */
+export function transcriptHtml(terminal: Terminal, title: string): string {
+  const theme = terminal.options.theme ?? {};
+  const palette = ansiPalette(theme);
+  const foreground = theme.foreground ?? '#ffffff';
+  const background = theme.background ?? '#000000';
+  const buffer = terminal.buffer.active;
+  const cell = buffer.getNullCell();
+  const rows: string[] = [];
+
+  for (let i = 0; i < buffer.length; i++) {
+    const line = buffer.getLine(i);
+    if (!line) continue;
+
+    let row = '';
+    let style = '';
+    let text = '';
+    for (let x = 0; x < line.length; x++) {
+      line.getCell(x, cell);
+      // The second half of a wide character
+      if (cell.getWidth() === 0) continue;
+      const cellStyle = cssForCell(cell, palette, foreground, background);
+      if (cellStyle !== style) {
+        row += wrapStyled(text, style);
+        style = cellStyle;
+        text = '';
+      }
+      text += cell.getChars() || ' ';
+    }
+    row += wrapStyled(text, style);
+    // Unstyled padding after the last character
+    row = row.replace(/ +$/, '');
+
+    if (line.isWrapped && rows.length > 0) {
+      rows[rows.length - 1] += row;
+    } else {
+      rows.push(row);
+    }
+  }
+  while (rows.length > 0 && !rows[rows.length - 1]) {
+    rows.pop();
+  }
+
+  const fontFamily = escapeHtml(terminal.options.fontFamily ?? 'monospace');
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '</head>',
+    `<body style="margin: 0; color: ${foreground}; background-color: ${background};">`,
+    `<pre style="margin: 0; padding: 8px; font-family: ${fontFamily}; font-size: ${terminal.options.fontSize ?? 13}px;">`,
+    rows.join('\n'),
+    '</pre>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * The buffer as Markdown: a heading and the text in a code block
+ */
+export function transcriptMarkdown(terminal: Terminal, title: string, exportedAt: Date): string {
+  const text = transcriptText(terminal);
+  // The fence must be longer than any backtick run in the transcript
+  const longestRun = Math.max(0, ...Array.from(text.matchAll(/`+/g), match => match[0].length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `# ${title}\n\nExported ${exportedAt.toLocaleString()}\n\n${fence}text\n${text}${fence}\n`;
+}
+
+/**
+ * Save a transcript through the downloads API, letting the user pick where
+ */
+export async function downloadTranscript(
+  content: string,
+  format: TranscriptFormat,
+  sessionName: string,
+  exportedAt: Date
+): Promise<void> {
+  const { extension, mimeType } = TRANSCRIPT_TYPES[format];
+  const slug = sessionName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+  const stamp = exportedAt.toISOString().replace(/[:.]/g, '-');
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+
+  let downloadId: number;
+  try {
+    downloadId = await chrome.downloads.download({
+      url,
+      filename: `gemini-${slug}-${stamp}.${extension}`,
+      saveAs: true
+    });
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+
+  // The blob must stay alive until the download has read it
+  const onChanged = (delta: chrome.downloads.DownloadDelta) => {
+    if (delta.id === downloadId && delta.state && delta.state.current !== 'in_progress') {
+      chrome.downloads.onChanged.removeListener(onChanged);
+      URL.revokeObjectURL(url);
+    }
+  };
+  chrome.downloads.onChanged.addListener(onChanged);
+}
+
+/**
+ * The 256-color palette with the theme's 16 ANSI colors in front
+ */
+function ansiPalette(theme: ITheme): string[] {
+  const named = [
+    theme.black, theme.red, theme.green, theme.yellow,
+    theme.blue, theme.magenta, theme.cyan, theme.white,
+    theme.brightBlack, theme.brightRed, theme.brightGreen, theme.brightYellow,
+    theme.brightBlue, theme.brightMagenta, theme.brightCyan, theme.brightWhite
+  ];
+  // xterm.js defaults for colors a theme leaves out
+  const defaults = [
+    '#2e3436', '#cc0000', '#4e9a06', '#c4a000', '#3465a4', '#75507b', '#06989a', '#d3d7cf',
+    '#555753', '#ef2929', '#8ae234', '#fce94f', '#729fcf', '#ad7fa8', '#34e2e2', '#eeeeec'
+  ];
+  const palette = named.map((color, index) => color ?? defaults[index]);
+
+  const levels = [0, 95, 135, 175, 215, 255];
+  for (let i = 0; i < 216; i++) {
+    palette.push(rgbHex(levels[Math.floor(i / 36) % 6], levels[Math.floor(i / 6) % 6], levels[i % 6]));
+  }
+  for (let i = 0; i < 24; i++) {
+    const level = 8 + i * 10;
+    palette.push(rgbHex(level, level, level));
+  }
+  return palette;
+}
+
+/**
+ * Inline CSS for a cell's colors and attributes; empty for default text
+ */
+function cssForCell(cell: IBufferCell, palette: string[], foreground: string, background: string): string {
+  const color = (isRGB: boolean, isPalette: boolean, value: number): string | undefined => {
+    if (isRGB) return rgbHex((value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+    if (isPalette) return palette[value];
+    return undefined;
+  };
+  let fg = color(cell.isFgRGB(), cell.isFgPalette(), cell.getFgColor());
+  let bg = color(cell.isBgRGB(), cell.isBgPalette(), cell.getBgColor());
+  if (cell.isInverse()) {
+    [fg, bg] = [bg ?? background, fg ?? foreground];
+  }
+  // Bold text in the first 8 colors is drawn bright, as xterm does
+  if (cell.isBold() && cell.isFgPalette() && cell.getFgColor() < 8 && !cell.isInverse()) {
+    fg = palette[cell.getFgColor() + 8];
+  }
+
+  const rules: string[] = [];
+  if (fg) rules.push(`color: ${fg}`);
+  if (bg) rules.push(`background-color: ${bg}`);
+  if (cell.isBold()) rules.push('font-weight: bold');
+  if (cell.isItalic()) rules.push('font-style: italic');
+  if (cell.isDim()) rules.push('opacity: 0.5');
+  if (cell.isInvisible()) rules.push('visibility: hidden');
+  const decorations = [
+    cell.isUnderline() && 'underline',
+    cell.isOverline() && 'overline',
+    cell.isStrikethrough() && 'line-through'
+  ].filter(Boolean);
+  if (decorations.length > 0) rules.push(`text-decoration: ${decorations.join(' ')}`);
+  return rules.join('; ');
+}
+
+function wrapStyled(text: string, style: string): string {
+  if (!text) return '';
+  return style ? `<span style="${style}">${escapeHtml(text)}</span>` : escapeHtml(text);
+}
+
+function rgbHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+}
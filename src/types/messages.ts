@@ -2,49 +2,540 @@
  * Message types for communication between extension components and backend
  */
 
+/**
+ * Version of the extension <-> backend protocol.
+ * Bump when a message shape changes incompatibly; the handshake refuses
+ * to connect to a backend speaking a different version.
+ */
+export const PROTOCOL_VERSION = 3;
+
 // Terminal I/O messages
+//
+// Every terminal message names the session it belongs to. Each session is a
+// separate conversation on the backend, started by terminal:open and ended
+// by terminal:close.
+
 export interface TerminalInputMessage {
   type: 'terminal:input';
+  sessionId: string;
   data: string;
 }
 
 export interface TerminalOutputMessage {
   type: 'terminal:output';
+  sessionId: string;
   data: string;
+  /**
+   * Set by the background when forwarding to the side panel: the session's
+   * stream position after this chunk, matching TerminalReplayResponse.end
+   */
+  offset?: number;
 }
 
 export interface TerminalResizeMessage {
   type: 'terminal:resize';
+  sessionId: string;
+  cols: number;
+  rows: number;
+}
+
+/**
+ * Starts a terminal session. The extension sends it again for every open
+ * session after reconnecting; the backend should ignore opens for sessions
+ * it still has.
+ */
+export interface TerminalOpenMessage {
+  type: 'terminal:open';
+  sessionId: string;
+  name: string;
   cols: number;
   rows: number;
 }
 
+export interface TerminalCloseMessage {
+  type: 'terminal:close';
+  sessionId: string;
+}
+
+/** A terminal session as tracked by the background */
+export interface TerminalSessionInfo {
+  sessionId: string;
+  name: string;
+  cols: number;
+  rows: number;
+  createdAt: number;
+}
+
+// Terminal session messages between the side panel and background only.
+// terminal:list is answered with TerminalSessionInfo[] and terminal:replay
+// with TerminalReplayResponse; terminal:sessions is broadcast whenever a
+// session is opened, closed or renamed.
+export interface TerminalRenameMessage {
+  type: 'terminal:rename';
+  sessionId: string;
+  name: string;
+}
+
+export interface TerminalListMessage {
+  type: 'terminal:list';
+}
+
+export interface TerminalReplayMessage {
+  type: 'terminal:replay';
+  sessionId: string;
+}
+
+export interface TerminalReplayResponse {
+  /** Buffered output, oldest first */
+  data: string;
+  /** Stream position at the end of data; live output at or before it is already included */
+  end: number;
+  /** Older output was discarded to stay within the buffer size */
+  truncated: boolean;
+}
+
+export interface TerminalSessionsMessage {
+  type: 'terminal:sessions';
+  sessions: TerminalSessionInfo[];
+}
+
+// Page context sent from the "Send to Gemini" context menu. The background
+// queues it and broadcasts context:available; the side panel of the window
+// it came from takes it with context:take (answered with PendingContext[])
+// and either pastes the block at the prompt or forwards the context to the
+// backend.
+
+export type PageContextKind = 'selection' | 'link' | 'image' | 'page';
+
+export interface PageContext {
+  kind: PageContextKind;
+  pageUrl: string;
+  pageTitle: string;
+  /** Selected text, link text, or the page's main content as Markdown */
+  text?: string;
+  /** Link target or image source */
+  targetUrl?: string;
+  /** text was cut to stay within the size limit */
+  truncated?: boolean;
+  capturedAt: number;
+}
+
+export type PendingContext =
+  | { id: string; delivery: 'prompt'; block: string }
+  | { id: string; delivery: 'attachment'; context: PageContext };
+
+/** A page context attached to a session's conversation */
+export interface TerminalContextMessage {
+  type: 'terminal:context';
+  sessionId: string;
+  context: PageContext;
+}
+
+/**
+ * One chunk of a file dropped or pasted into a session. Files are split into
+ * chunks sent in order; every chunk repeats the file's metadata so the
+ * backend can reassemble by attachmentId once chunkCount chunks arrived.
+ */
+export interface TerminalAttachmentMessage {
+  type: 'terminal:attachment';
+  sessionId: string;
+  attachmentId: string;
+  name: string;
+  mimeType: string;
+  /** Size of the whole file in bytes */
+  size: number;
+  chunkIndex: number;
+  chunkCount: number;
+  /** This chunk's bytes, base64 encoded */
+  data: string;
+}
+
+export interface ContextAvailableMessage {
+  type: 'context:available';
+}
+
+export interface ContextTakeMessage {
+  type: 'context:take';
+  /** Only contexts captured in this window */
+  windowId: number;
+}
+
 // Browser context request/response messages
+
+/**
+ * Selects which tab a browser request runs against.
+ * Resolution order: tabId, then urlPattern, then the active tab of windowId,
+ * falling back to the active tab of the last focused window.
+ */
+export interface TabTarget {
+  tabId?: number;
+  windowId?: number;
+  /** Chrome match pattern, e.g. "https://*.example.com/*" */
+  urlPattern?: string;
+}
+
+/** Frames a DOM action runs in; the top frame when none is given */
+export interface FrameTarget {
+  frameId?: number;
+  /** URL glob where * matches anything, e.g. "https://js.stripe.com/*" */
+  frameUrl?: string;
+  /** Run in every frame (every frame matching frameUrl, if given) and merge the results */
+  allFrames?: boolean;
+}
+
+/** A frame reported by listFrames; the top frame has frameId 0 */
+export interface FrameInfo {
+  frameId: number;
+  parentFrameId: number;
+  url: string;
+}
+
+/** The tab a browser request actually ran against */
+export interface TabInfo {
+  id: number;
+  windowId: number;
+  url?: string;
+  title?: string;
+  active: boolean;
+}
+
 export interface BrowserContextRequest {
   type: 'browser:request';
   requestId: string;
-  action: 'getDom' | 'getSelection' | 'getUrl' | 'screenshot' | 'executeScript' | 'modifyDom' | 'getConsoleLogs';
-  params?: Record<string, unknown>;
+  action:
+    | 'getDom'
+    | 'getSelection'
+    | 'getReadableContent'
+    | 'getUrl'
+    | 'screenshot'
+    | 'executeScript'
+    | 'modifyDom'
+    | 'getConsoleLogs'
+    | 'getNetworkLog'
+    | 'getAccessibilityTree'
+    | 'click'
+    | 'type'
+    | 'press'
+    | 'hover'
+    | 'scroll'
+    | 'navigate'
+    | 'back'
+    | 'forward'
+    | 'reload'
+    | 'openTab'
+    | 'closeTab'
+    | 'waitFor'
+    | 'undoDomChange'
+    | 'revertAll'
+    | 'listDomChanges'
+    | 'listFrames';
+  params?: TabTarget & FrameTarget & Record<string, unknown>;
 }
 
+export type BrowserAction = BrowserContextRequest['action'];
+
 export interface BrowserContextResponse {
   type: 'browser:response';
   requestId: string;
   success: boolean;
   data?: unknown;
   error?: string;
+  tab?: TabInfo;
+}
+
+/**
+ * One slice of a browser:response too large for a single message, sent
+ * when the backend accepts 'responseChunks'. Joining data from sequence 0
+ * to total - 1 gives the JSON of the whole response.
+ */
+export interface BrowserResponseChunkMessage {
+  type: 'browser:response:chunk';
+  requestId: string;
+  sequence: number;
+  total: number;
+  data: string;
+}
+
+/**
+ * Stands in for a screenshot's dataUrl when the backend accepts
+ * 'binaryFrames'. The image follows the response as `frames` binary
+ * WebSocket frames, each a 4-byte big-endian header length, a UTF-8 JSON
+ * BinaryFrameHeader, then that frame's share of the bytes.
+ */
+export interface BinaryPayloadInfo {
+  mimeType: string;
+  size: number;
+  frames: number;
+}
+
+export interface BinaryFrameHeader {
+  requestId: string;
+  sequence: number;
+  total: number;
+}
+
+/** Optional transfer features; each side lists the ones it supports and both use the overlap */
+export type TransferFeature = 'responseChunks' | 'binaryFrames';
+
+/** Exception thrown by a script run through the executeScript action */
+export interface ScriptException {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+/** A modifyDom edit recorded in a page's undo journal */
+export interface DomChangeEntry {
+  id: number;
+  timestamp: number;
+  action: string;
+  selector: string;
+  summary: string;
+  modifiedCount: number;
+  reverted: boolean;
 }
 
 // Connection status messages
 export interface ConnectionStatusMessage {
   type: 'connection:status';
-  status: 'connected' | 'disconnected' | 'connecting' | 'error';
+  status: 'connected' | 'disconnected' | 'connecting' | 'pairing' | 'error';
+  message?: string;
+  /** One-time code to enter in the backend while status is 'pairing' */
+  pairingCode?: string;
+}
+
+// Session handshake messages
+//
+// Backend sends session:challenge on open, and the extension answers with
+// session:hello. Every proof covers both sides' nonces, so neither side's
+// proof can be replayed into another handshake. A backend that recognizes
+// the extension's proof answers session:welcome with its own; otherwise it
+// answers session:pairingRequired, the extension shows a one-time code, and
+// the backend answers session:paired once the user enters that code.
+
+/** Sent by the backend as soon as the socket opens */
+export interface SessionChallengeMessage {
+  type: 'session:challenge';
+  protocolVersion: number;
+  /** Fresh for every connection */
+  nonce: string;
+}
+
+/** Answers session:challenge */
+export interface SessionHelloMessage {
+  type: 'session:hello';
+  protocolVersion: number;
+  extensionVersion: string;
+  supportedActions: BrowserAction[];
+  features: TransferFeature[];
+  nonce: string;
+  /** HMAC-SHA256(token, 'extension:' + nonce + ':' + challenge nonce); absent when not yet paired */
+  proof?: string;
+}
+
+export interface SessionWelcomeMessage {
+  type: 'session:welcome';
+  protocolVersion: number;
+  backendVersion?: string;
+  supportedActions?: string[];
+  features?: string[];
+  /** HMAC-SHA256(token, 'backend:' + hello nonce + ':' + challenge nonce) */
+  proof: string;
+}
+
+export interface SessionPairingRequiredMessage {
+  type: 'session:pairingRequired';
+  protocolVersion: number;
+  backendVersion?: string;
+  supportedActions?: string[];
+  features?: string[];
+}
+
+export interface SessionPairedMessage {
+  type: 'session:paired';
+  token: string;
+  /** HMAC-SHA256(pairingCode, 'pair:' + hello nonce + ':' + challenge nonce + ':' + token) */
+  proof: string;
+}
+
+/**
+ * Sent by the extension every few seconds once the session is ready.
+ * Socket traffic is what keeps an MV3 service worker from being suspended;
+ * the backend should simply ignore it.
+ */
+export interface SessionKeepaliveMessage {
+  type: 'session:keepalive';
+}
+
+export interface SessionRejectMessage {
+  type: 'session:reject';
+  reason: 'version' | 'auth' | 'pairing';
+  protocolVersion?: number;
   message?: string;
 }
 
+/**
+ * Sent to the side panel when the background service worker was restarted
+ * by Chrome and had to rebuild its state from chrome.storage.session
+ */
+export interface WorkerRestartedMessage {
+  type: 'worker:restarted';
+  restartedAt: number;
+  previousStartedAt: number;
+  lost: string[];
+  restored: string[];
+}
+
+// DOM change journal messages between the side panel and background.
+// The background answers list/undo/revertAll with DomChangesResponse and
+// broadcasts domChanges:updated whenever a tab's journal changes.
+export interface DomChangesRequestMessage {
+  type: 'domChanges:list' | 'domChanges:undo' | 'domChanges:revertAll';
+  tabId: number;
+  /** For domChanges:undo */
+  changeId?: number;
+  force?: boolean;
+}
+
+export interface DomChangesResponse {
+  success: boolean;
+  changes?: DomChangeEntry[];
+  error?: string;
+}
+
+export interface DomChangesUpdatedMessage {
+  type: 'domChanges:updated';
+  tabId: number;
+  changes: DomChangeEntry[];
+}
+
+// Approval prompts for mutating browser actions.
+// The background sends approval:request to the side panel and holds the
+// browser request until the user answers with approval:response or the
+// prompt expires; approval:resolved tells every open panel to drop it.
+export interface ApprovalRequestMessage {
+  type: 'approval:request';
+  approvalId: string;
+  action: BrowserAction;
+  /** Origin the action runs on; absent for pages without one (about:blank) */
+  origin?: string;
+  url?: string;
+  title?: string;
+  /** One-line description of what the action will do */
+  summary: string;
+  /** Script source for executeScript and waitFor predicates */
+  code?: string;
+  /** Current and resulting markup for modifyDom */
+  diff?: DomDiffPreview;
+  expiresAt: number;
+}
+
+export interface DomDiffPreview {
+  matchCount: number;
+  before: string;
+  after: string;
+}
+
+export interface ApprovalResponseMessage {
+  type: 'approval:response';
+  approvalId: string;
+  approved: boolean;
+  /** Add the origin to the always-allow list */
+  alwaysAllow?: boolean;
+}
+
+export interface ApprovalResolvedMessage {
+  type: 'approval:resolved';
+  approvalId: string;
+  approved: boolean;
+}
+
+/** One browser request made by the backend, as kept in the audit log */
+export interface AuditEntry {
+  id: string;
+  /** When the request arrived */
+  timestamp: number;
+  requestId: string;
+  action: BrowserAction;
+  /** Truncated JSON of the request params */
+  params: string;
+  tabId?: number;
+  url?: string;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  /** Size of the response sent to the backend, in bytes */
+  payloadSize: number;
+}
+
+// Audit log messages between the side panel and background.
+// The background answers audit:list and audit:clear with AuditLogResponse
+// and broadcasts audit:appended for every request it finishes.
+export interface AuditRequestMessage {
+  type: 'audit:list' | 'audit:clear';
+}
+
+export interface AuditLogResponse {
+  success: boolean;
+  entries?: AuditEntry[];
+  error?: string;
+}
+
+export interface AuditAppendedMessage {
+  type: 'audit:appended';
+  entry: AuditEntry;
+}
+
+// Element picker. The side panel (or the pick-element shortcut) has the
+// background start picking in the active tab with picker:start; the content
+// script reports the outcome to every extension page with picker:result.
+
+/** An element captured with the picker */
+export interface PickedElement {
+  /** CSS selector that matched only this element when it was picked */
+  selector: string;
+  tag: string;
+  /** Visible text, whitespace collapsed and truncated */
+  text: string;
+  /** Identifying attributes such as id, name, role and aria-label */
+  attributes: Record<string, string>;
+  /** Border box in CSS pixels, relative to the document */
+  box: { x: number; y: number; width: number; height: number };
+  url: string;
+  title: string;
+}
+
+export interface PickerStartMessage {
+  type: 'picker:start';
+}
+
+export interface PickerStopMessage {
+  type: 'picker:stop';
+}
+
+export interface PickerResultMessage {
+  type: 'picker:result';
+  element?: PickedElement;
+  /** The picker couldn't start, e.g. on a restricted page */
+  error?: string;
+}
+
+/** Something the user did in the browser, pushed to a session's backend */
+export interface BrowserEventMessage {
+  type: 'browser:event';
+  event: 'elementPicked';
+  sessionId: string;
+  data: PickedElement;
+}
+
 // Content script messages (internal extension communication)
 export interface ContentScriptMessage {
-  type: 'content:getDom' | 'content:getSelection' | 'content:executeScript';
+  type:
+    | 'content:getDom'
+    | 'content:getSelection'
+    | 'content:executeScript'
+    | 'content:startPicker'
+    | 'content:stopPicker';
   requestId: string;
   params?: Record<string, unknown>;
 }
@@ -62,13 +553,43 @@ export type WebSocketMessage =
   | TerminalInputMessage
   | TerminalOutputMessage
   | TerminalResizeMessage
+  | TerminalOpenMessage
+  | TerminalCloseMessage
+  | TerminalContextMessage
+  | TerminalAttachmentMessage
+  | BrowserEventMessage
   | BrowserContextRequest
   | BrowserContextResponse
-  | ConnectionStatusMessage;
+  | BrowserResponseChunkMessage
+  | ConnectionStatusMessage
+  | SessionChallengeMessage
+  | SessionHelloMessage
+  | SessionWelcomeMessage
+  | SessionPairingRequiredMessage
+  | SessionPairedMessage
+  | SessionKeepaliveMessage
+  | SessionRejectMessage;
 
 // Union type for all internal extension messages
 export type ExtensionMessage =
   | ContentScriptMessage
   | ContentScriptResponse
+  | WorkerRestartedMessage
+  | DomChangesRequestMessage
+  | DomChangesUpdatedMessage
+  | ApprovalRequestMessage
+  | ApprovalResponseMessage
+  | ApprovalResolvedMessage
+  | AuditRequestMessage
+  | AuditAppendedMessage
+  | TerminalRenameMessage
+  | TerminalListMessage
+  | TerminalReplayMessage
+  | TerminalSessionsMessage
+  | ContextAvailableMessage
+  | ContextTakeMessage
+  | PickerStartMessage
+  | PickerStopMessage
+  | PickerResultMessage
   | { type: 'ping' }
   | { type: 'pong' };